@@ -0,0 +1,6 @@
+import { RedditRequestError } from './reddit-request-error';
+
+/**
+ * Thrown when an access token can't be retrieved or isn't accepted.
+ */
+export class AuthenticationError extends RedditRequestError {}
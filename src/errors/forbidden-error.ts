@@ -0,0 +1,7 @@
+import { RedditRequestError } from './reddit-request-error';
+
+export class ForbiddenError extends RedditRequestError {
+    constructor(endpoint: string, body: string) {
+        super('403 Forbidden', 403, endpoint, body);
+    }
+}
@@ -0,0 +1,15 @@
+import { OAuthScope } from '../types';
+
+/**
+ * Thrown before a request is sent when the access token wasn't granted the scope the endpoint needs.
+ */
+export class InsufficientScopeError extends Error {
+    /**
+     * @param scope The scope the endpoint needs.
+     * @param grantedScopes The scopes the access token was granted.
+     * @param endpoint The endpoint the request would've been sent to.
+     */
+    constructor(public readonly scope: OAuthScope, public readonly grantedScopes: string[], public readonly endpoint: string) {
+        super(`${endpoint} needs the "${scope}" scope but the access token was only granted: ${grantedScopes.join(', ') || 'none'}`);
+    }
+}
@@ -0,0 +1,8 @@
+export class InvalidFullnameError extends TypeError {
+    public readonly item: string;
+
+    constructor(item: string) {
+        super(`"${item}" is not a fullname, expected something like "t3_4j8p6d"`);
+        this.item = item;
+    }
+}
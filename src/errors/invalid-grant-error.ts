@@ -0,0 +1,7 @@
+import { AuthenticationError } from './authentication-error';
+
+export class InvalidGrantError extends AuthenticationError {
+    constructor(status: number, endpoint: string, body: string) {
+        super('"Invalid grant" error returned from reddit. (You might have incorrect credentials.)', status, endpoint, body);
+    }
+}
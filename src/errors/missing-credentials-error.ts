@@ -8,6 +8,8 @@ export class MissingCredentialsError extends Error {
                 (a) userAgent, clientId, clientSecret, and refreshToken properties
                 (b) userAgent and accessToken properties
                 (c) userAgent, clientId, clientSecret, username, and password properties
+                (d) userAgent, clientId, clientSecret, and grantType "client_credentials" properties
+                (e) userAgent, clientId, and grantType "installed_client" properties
         `);
     }
 }
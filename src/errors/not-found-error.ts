@@ -0,0 +1,7 @@
+import { RedditRequestError } from './reddit-request-error';
+
+export class NotFoundError extends RedditRequestError {
+    constructor(endpoint: string, body: string) {
+        super('404 Not Found', 404, endpoint, body);
+    }
+}
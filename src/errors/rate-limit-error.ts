@@ -0,0 +1,7 @@
+import { RedditRequestError } from './reddit-request-error';
+
+export class RateLimitError extends RedditRequestError {
+    constructor(public readonly reset: Date, endpoint: string, body = '') {
+        super(`Reddit's ratelimit was exceeded, it resets at ${reset.toISOString()}. Set "continueAfterRatelimitError" to queue requests instead.`, 429, endpoint, body);
+    }
+}
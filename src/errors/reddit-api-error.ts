@@ -0,0 +1,23 @@
+import { RedditRequestError } from './reddit-request-error';
+
+/**
+ * A single entry from the `json.errors` array, e.g. `['SUBREDDIT_NOEXIST', "that subreddit doesn't exist", 'sr']`.
+ */
+export type RedditApiErrorDetail = {
+    code: string;
+    message: string;
+    field?: string;
+};
+
+/**
+ * Thrown when Reddit accepts a request but reports errors in the `json.errors` array of the response.
+ */
+export class RedditApiError extends RedditRequestError {
+    public readonly errors: RedditApiErrorDetail[];
+
+    constructor(errors: [string, string, string?][], status: number, endpoint: string, body: string) {
+        super(errors.map(([code, message]) => `${code}: ${message}`).join('\n'), status, endpoint, body);
+
+        this.errors = errors.map(([code, message, field]) => ({ code, message, field }));
+    }
+}
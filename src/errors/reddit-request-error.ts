@@ -0,0 +1,14 @@
+/**
+ * Thrown when Reddit responds to a request with an error.
+ */
+export class RedditRequestError extends Error {
+    /**
+     * @param message What went wrong.
+     * @param status The HTTP status code of the response.
+     * @param endpoint The endpoint the request was sent to.
+     * @param body The raw response body.
+     */
+    constructor(message: string, public readonly status: number, public readonly endpoint: string, public readonly body: string) {
+        super(message);
+    }
+}
@@ -1,36 +1,49 @@
 import { SnooWrapped } from "../snoo-wrapped";
-import { SubredditType } from "../types";
-import { RedditContent } from "./reddit-content";import { RedditUser } from "./reddit-user";
+import { CommentSort, RawListing, RawThing, SubredditType } from "../types";
+import { expandCommentTree } from "../utils/expand-comment-tree";
+import { flairFromRaw } from "../utils/flair-from-raw";
+import { MoreComments, RawMoreComments } from "./more-comments";
+import { moderationDataFromRaw, RawModerationData, Reports } from "./replyable-content";
+import { VoteableContent, Votes } from "./voteable-content";
+import { RedditUser } from "./reddit-user";
 import { Submission } from "./submission";
 import { Subreddit } from "./subreddit";
 
 type MissingEndpoint = { message: 'Not Found'; error: number; };
 
-export type RawComment = {
-    kind: 'Listing',
-    data: {
-        children: [{
-            kind: 't1',
-            data: {
-                name: string;
-                author: string;
-                subreddit: string;
-                ups: number;
-                downs: number;
-                created: number;
-                edited: number;
-                gilded: number;
-                subreddit_type: SubredditType;
-                archived: boolean;
-                body: string;
-                parent_id: string;
-            }
-        }]
-    }
+export type RawCommentData = RawModerationData & {
+    name: string;
+    author: string;
+    subreddit: string;
+    ups: number;
+    downs: number;
+    score: number;
+    likes: boolean | null;
+    saved: boolean;
+    created_utc: number;
+    edited: number | false;
+    gilded: number;
+    subreddit_type: SubredditType;
+    archived: boolean;
+    body: string;
+    parent_id: string;
+    link_id: string;
+    author_flair_text: string | null;
+    author_flair_css_class: string | null;
+    author_flair_template_id?: string | null;
+    depth?: number;
+    replies?: '' | RawListing<RawThing<'t1', RawCommentData> | RawThing<'more', RawMoreComments>>;
 };
 
+export type RawComment = RawListing<RawThing<'t1', RawCommentData>>;
+
 export class Comment<Data extends {
     name: string;
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    reportsIgnored?: boolean;
+    reports?: Reports;
     submission?: Submission;
     subreddit?: Subreddit;
     body?: string;
@@ -40,12 +53,19 @@ export class Comment<Data extends {
     archived?: boolean;
     subredditType?: SubredditType;
     author?: RedditUser;
-    votes?: {
-        up?: number;
-        down?: number;
-    };
+    votes?: Votes;
+    saved?: boolean;
+    parentId?: string;
+    depth?: number;
+    replies?: Comment[];
+    moreReplies?: MoreComments;
 } = {
     name: string;
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    reportsIgnored?: boolean;
+    reports?: Reports;
     submission?: Submission;
     subreddit?: Subreddit;
     body?: string;
@@ -55,11 +75,13 @@ export class Comment<Data extends {
     archived?: boolean;
     subredditType?: SubredditType;
     author?: RedditUser;
-    votes?: {
-        up?: number;
-        down?: number;
-    };
-}> extends RedditContent<Data> {
+    votes?: Votes;
+    saved?: boolean;
+    parentId?: string;
+    depth?: number;
+    replies?: Comment[];
+    moreReplies?: MoreComments;
+}> extends VoteableContent<Data> {
     public submission?: Submission;
     public body?: string;
     public created?: Date;
@@ -69,55 +91,97 @@ export class Comment<Data extends {
     public subredditType?: SubredditType;
     public subreddit?: Subreddit;
     public author: any;
-    public votes: { up?: number; down?: number; };
-    
+    public parentId?: string;
+    public depth?: number;
+    public replies?: Comment[];
+    public moreReplies?: MoreComments;
+
     constructor(data: Data, snooWrapped: SnooWrapped) {
         super(data, snooWrapped);
 
         this.submission = data.submission;
         this.subreddit = data.subreddit;
         this.author = data.author;
-        this.votes = {
-            up: data.votes?.up,
-            down: data.votes?.down,
-        };
         this.created = data.created;
         this.edited = data.edited;
         this.gilded = data.gilded;
         this.subredditType = data.subredditType;
         this.body = data.body;
         this.archived = data.archived;
+        this.parentId = data.parentId;
+        this.depth = data.depth;
+        this.replies = data.replies;
+        this.moreReplies = data.moreReplies;
     }
 
-    protected _populate(data: MissingEndpoint | RawComment) {
-        if ('error' in data && data.error === 404) return;
-        if ('kind' in data && data.kind !== 'Listing') return;
-
-        const commentData = (data as RawComment).data.children[0].data;
+    /**
+     * Creates a Comment from the raw `t1` data Reddit returns, including any replies.
+     * @param sort The sort order used for "load more comments" placeholders in the replies.
+     */
+    static fromRaw(commentData: RawCommentData, snooWrapped: SnooWrapped, sort?: CommentSort) {
+        const children = commentData.replies ? commentData.replies.data.children : [];
+        const more = children.find(child => child.kind === 'more');
 
         return new Comment({
-            ...this.data,
-            submission: new Submission({ name: commentData.parent_id }, this.snooWrapped),
-            author: new RedditUser({ name: commentData.author }, this.snooWrapped),
-            subreddit: commentData.subreddit,
+            name: commentData.name,
+            submission: commentData.link_id ? new Submission({ name: commentData.link_id }, snooWrapped) : undefined,
+            author: new RedditUser({
+                name: commentData.author,
+                flair: flairFromRaw(commentData.author_flair_text, commentData.author_flair_css_class, commentData.author_flair_template_id)
+            }, snooWrapped),
+            subreddit: new Subreddit({ name: commentData.subreddit }, snooWrapped),
             votes: {
                 up: commentData.ups,
-                down: commentData.downs
+                down: commentData.downs,
+                score: commentData.score,
+                likes: commentData.likes
             },
-            created: new Date(commentData.created),
-            edited: new Date(commentData.edited),
+            saved: commentData.saved,
+            created: new Date(commentData.created_utc * 1000),
+            edited: commentData.edited === false ? undefined : new Date(commentData.edited * 1000),
             gilded: commentData.gilded,
             subredditType: commentData.subreddit_type,
             body: commentData.body,
-            archived: commentData.archived
-        }, this.snooWrapped);
+            archived: commentData.archived,
+            ...moderationDataFromRaw(commentData),
+            parentId: commentData.parent_id,
+            depth: commentData.depth,
+            replies: children
+                .filter((child): child is RawThing<'t1', RawCommentData> => child.kind === 't1')
+                .map(child => Comment.fromRaw(child.data, snooWrapped, sort)),
+            moreReplies: more ? MoreComments.fromRaw(more.data as RawMoreComments, commentData.link_id, sort, snooWrapped) : undefined
+        }, snooWrapped);
+    }
+
+    /**
+     * Returns a copy of this Comment with different replies.
+     */
+    withReplies(replies: Comment[], moreReplies?: MoreComments) {
+        return new Comment({ ...this.data, replies, moreReplies }, this.snooWrapped);
+    }
+
+    /**
+     * Fetches the replies hidden behind "load more comments" placeholders under this Comment.
+     * @param depth How many levels of replies to expand.
+     * @param limit The most placeholders to expand, each one costs a request.
+     * @example
+     *
+     * const comment = await sW.getSubmission('2np694').fetch().then(submission => submission.comments[0]);
+     * const expandedComment = await comment.expandReplies({ depth: 2, limit: 10 });
+     */
+    async expandReplies({ depth = Infinity, limit = Infinity }: { depth?: number; limit?: number; } = {}) {
+        const { comments, more } = await expandCommentTree(this.replies ?? [], this.moreReplies, depth, { remaining: limit });
+        return this.withReplies(comments, more);
+    }
+
+    protected _populate(data: MissingEndpoint | RawComment) {
+        if ('error' in data && data.error === 404) return;
+        if ('kind' in data && data.kind !== 'Listing') return;
 
-        // const submissionData = (data as RawResult)[0].data.children[0].data;
+        const [child] = (data as RawComment).data.children;
+        if (!child) return;
 
-        // return new Comment({
-        //     ...this.data,
-        //     submission: new Submission({ name: submissionData.name }, this.snooWrapped)
-        // }, this.snooWrapped);
+        return Comment.fromRaw(child.data, this.snooWrapped);
     }
 
     protected get uri() {
@@ -0,0 +1,112 @@
+import { sleep } from '../utils/sleep';
+import { Listing } from './listing';
+import { RedditContent } from './reddit-content';
+
+export type StreamOptions = {
+    /** How often to poll while new items keep arriving, in milliseconds, defaults to 2 seconds. */
+    pollInterval?: number;
+    /** The longest the poll interval backs off to while nothing new arrives, in milliseconds, defaults to 1 minute. */
+    maxPollInterval?: number;
+    /** How many items to request per poll, Reddit allows at most 100. */
+    limit?: number;
+    /** How many fullnames to remember for deduplication, defaults to 1000. */
+    seenLimit?: number;
+    /** Only yield items that arrive after the stream starts. */
+    skipExisting?: boolean;
+    /** Stops the stream once aborted. */
+    signal?: AbortSignal;
+    /** Called with each failed poll, the stream backs off and keeps polling afterwards. */
+    onError?: (error: unknown) => void;
+    /** End the stream by rethrowing the first failed poll instead of retrying it, defaults to `false`. */
+    stopOnError?: boolean;
+};
+
+/**
+ * Remembers the most recent fullnames, forgetting the oldest once full.
+ */
+class SeenNames {
+    #names = new Set<string>();
+    #limit: number;
+
+    constructor(limit: number) {
+        this.#limit = limit;
+    }
+
+    has(name: string) {
+        return this.#names.has(name);
+    }
+
+    add(name: string) {
+        this.#names.add(name);
+        if (this.#names.size > this.#limit) this.#names.delete(this.#names.values().next().value);
+    }
+}
+
+/**
+ * Polls a Listing for new items, yielding each one only once, oldest first.
+ * The poll interval doubles while nothing new arrives or polls fail, and resets once something new does.
+ * @example
+ *
+ * const controller = new AbortController();
+ * for await (const submission of sW.streamSubmissions({ subreddit: 'AskReddit', signal: controller.signal })) {
+ *   console.log(submission.title);
+ * }
+ */
+export class ContentStream<T extends RedditContent = RedditContent> {
+    #listing: Listing<T>;
+    #pollInterval: number;
+    #maxPollInterval: number;
+    #skipExisting: boolean;
+    #signal?: AbortSignal;
+    #onError?: (error: unknown) => void;
+    #stopOnError: boolean;
+    #seen: SeenNames;
+
+    constructor(listing: Listing<T>, { pollInterval = 2000, maxPollInterval = 60000, seenLimit = 1000, skipExisting = false, signal, onError, stopOnError = false }: StreamOptions = {}) {
+        this.#listing = listing;
+        this.#pollInterval = pollInterval;
+        this.#maxPollInterval = Math.max(maxPollInterval, pollInterval);
+        this.#skipExisting = skipExisting;
+        this.#signal = signal;
+        this.#onError = onError;
+        this.#stopOnError = stopOnError;
+        this.#seen = new SeenNames(seenLimit);
+    }
+
+    async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        let interval = this.#pollInterval;
+        let isFirstPoll = true;
+
+        while (!this.#signal?.aborted) {
+            let items: T[];
+            try {
+                ({ items } = await this.#listing.fetch());
+            } catch (error) {
+                if (this.#stopOnError) throw error;
+                if (this.#signal?.aborted) return;
+
+                // Keep going, a long running stream shouldn't end over one failed poll
+                this.#onError?.(error);
+                interval = Math.min(interval * 2, this.#maxPollInterval);
+                await sleep(interval, this.#signal);
+                continue;
+            }
+            if (this.#signal?.aborted) return;
+
+            // Listings are newest first
+            const newItems = items.filter(item => !this.#seen.has(item.name)).reverse();
+            newItems.forEach(item => this.#seen.add(item.name));
+
+            if (!(isFirstPoll && this.#skipExisting)) {
+                for (const item of newItems) {
+                    yield item;
+                    if (this.#signal?.aborted) return;
+                }
+            }
+
+            isFirstPoll = false;
+            interval = newItems.length ? this.#pollInterval : Math.min(interval * 2, this.#maxPollInterval);
+            await sleep(interval, this.#signal);
+        }
+    }
+}
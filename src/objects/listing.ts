@@ -0,0 +1,182 @@
+import util from 'util';
+import { RequiredArgumentError } from '../errors/required-argument-erorr';
+import { SnooWrapped } from '../snoo-wrapped';
+import { OAuthScope, RawListing } from '../types';
+import { createContent } from '../utils/create-content';
+import { RedditContent } from './reddit-content';
+
+export type ListingOptions = {
+    /** How many items to fetch per request, Reddit allows at most 100. */
+    limit?: number;
+    /** The fullname of the item to start after. */
+    after?: string;
+    /** The fullname of the item to start before, the listing is then paginated backwards. */
+    before?: string;
+    /** How many items have already been seen. */
+    count?: number;
+    /** The most items this listing will ever hold. */
+    maxItems?: number;
+};
+
+type ListingState<T> = {
+    items: T[];
+    after?: string;
+    before?: string;
+    count: number;
+    isFinished: boolean;
+};
+
+type ListingData<T> = {
+    uri: string;
+    query?: Record<string, any>;
+    options?: ListingOptions;
+    /** The OAuth scope the endpoint needs, defaults to `read`. */
+    scope?: OAuthScope;
+    /** Creates the items from the raw children, for listings whose children aren't things. */
+    createItem?: (child: any) => T | undefined;
+    state?: ListingState<T>;
+};
+
+/**
+ * A paginated list of Reddit content, e.g. the posts on a subreddit.
+ * @example
+ *
+ * for await (const submission of sW.getSubreddit('AskReddit').getHot({ maxItems: 250 })) {
+ *   console.log(submission.title);
+ * }
+ */
+export class Listing<T extends RedditContent = RedditContent> {
+    public readonly items: T[];
+    public readonly after?: string;
+    public readonly before?: string;
+    public readonly count: number;
+    public readonly limit: number;
+    public readonly maxItems: number;
+    public readonly isFinished: boolean;
+    protected snooWrapped: SnooWrapped;
+    protected data: ListingData<T>;
+
+    constructor(data: ListingData<T>, snooWrapped: SnooWrapped) {
+        if (!data.uri) throw new RequiredArgumentError('data.uri');
+        if (!snooWrapped) throw new RequiredArgumentError('snooWrapped');
+
+        // Start from the given cursor unless we're continuing a previous page
+        const { after, before, count = 0, limit = 25, maxItems = Infinity } = data.options ?? {};
+        const state = data.state ?? { items: [], after, before, count, isFinished: maxItems <= 0 };
+
+        // Save data
+        this.data = data;
+        this.items = state.items;
+        this.after = state.after;
+        this.before = state.before;
+        this.count = state.count;
+        this.limit = Math.min(limit, 100);
+        this.maxItems = maxItems;
+        this.isFinished = state.isFinished;
+
+        // Save SnooWrapped instance
+        this.snooWrapped = snooWrapped;
+    }
+
+    [util.inspect.custom]() {
+        // In debug mode return whole object
+        if (process.env.DEBUG) return this;
+
+        // Strip off protected fields
+        const that = this as any;
+        delete that.data;
+        delete that.snooWrapped;
+        return that;
+    }
+
+    get length() {
+        return this.items.length;
+    }
+
+    [Symbol.iterator]() {
+        return this.items[Symbol.iterator]();
+    }
+
+    /**
+     * Yields every item, fetching more pages as they're needed until the listing is finished.
+     */
+    async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+        let listing: Listing<T> = this;
+        let index = 0;
+
+        while (true) {
+            while (index < listing.items.length) yield listing.items[index++];
+            if (listing.isFinished) return;
+            listing = await listing.fetchMore();
+        }
+    }
+
+    /**
+     * Fetches the first page of this listing.
+     * @example
+     *
+     * sW.getSubreddit('AskReddit').getHot({ limit: 10 }).fetch().then(listing => console.log(listing.length));
+     * // => 10
+     */
+    async fetch() {
+        return new Listing<T>({ ...this.data, state: undefined }, this.snooWrapped).fetchMore({ amount: this.limit });
+    }
+
+    /**
+     * Fetches more items and resolves with a new listing that holds both the old and new items.
+     * @param amount How many more items to fetch, defaults to the page size.
+     * @example
+     *
+     * const listing = await sW.getSubreddit('AskReddit').getNew().fetch();
+     * const longerListing = await listing.fetchMore({ amount: 50 });
+     */
+    async fetchMore({ amount = this.limit }: { amount?: number; } = {}) {
+        const items = [...this.items];
+        const target = Math.min(items.length + amount, this.maxItems);
+        const backwards = this.data.options?.after === undefined && this.data.options?.before !== undefined;
+        let { after, before, count, isFinished } = this;
+
+        while (!isFinished && items.length < target) {
+            const response = await this.snooWrapped.oauthRequest<RawListing>(this.data.uri, {
+                scope: this.data.scope ?? 'read',
+                query: {
+                    ...this.data.query,
+                    limit: Math.min(this.limit, target - items.length),
+                    count,
+                    ...(backwards ? { before } : { after })
+                }
+            });
+
+            const page = response.data.children
+                .map(child => this.data.createItem ? this.data.createItem(child) : createContent(child, this.snooWrapped))
+                .filter((item): item is RedditContent => item !== undefined) as T[];
+            items.push(...page);
+            count += response.data.children.length;
+            after = response.data.after ?? undefined;
+            before = response.data.before ?? undefined;
+            isFinished = response.data.children.length === 0 || (backwards ? !before : !after);
+        }
+
+        return new Listing<T>({
+            ...this.data,
+            state: {
+                items: items.slice(0, this.maxItems),
+                after,
+                before,
+                count,
+                isFinished: isFinished || items.length >= this.maxItems
+            }
+        }, this.snooWrapped);
+    }
+
+    /**
+     * Fetches every remaining item, up to `maxItems`.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getComments().fetchAll().then(listing => console.log(listing.length));
+     * // => 1234
+     */
+    async fetchAll() {
+        return this.fetchMore({ amount: Infinity });
+    }
+}
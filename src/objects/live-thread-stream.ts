@@ -0,0 +1,146 @@
+import { EventEmitter } from "events";
+import WebSocket from "ws";
+import { SnooWrapped } from "../snoo-wrapped";
+import { backoffDelay } from "../utils/backoff-delay";
+import { LiveThread, RawLiveThread } from "./live-thread";
+import { LiveUpdate, RawLiveUpdate } from "./live-update";
+
+export type LiveThreadStreamOptions = {
+    /** The delay in milliseconds before the first reconnection attempt, doubling with each one after, defaults to 1 second. */
+    reconnectBackoffBase?: number;
+    /** How many times in a row to try reconnecting before giving up, defaults to 10. */
+    maxReconnectAttempts?: number;
+};
+
+type LiveThreadMessage =
+    | { type: 'update'; payload: { kind: 'LiveUpdate'; data: RawLiveUpdate; }; }
+    | { type: 'activity'; payload: { count: number; fuzzed: boolean; }; }
+    | { type: 'settings'; payload: Record<string, unknown>; }
+    | { type: 'delete' | 'strike'; payload: string; }
+    | { type: 'embeds_ready'; payload: { liveupdate_id: string; media_embeds: unknown[]; }; }
+    | { type: 'complete'; payload: null; };
+
+export interface LiveThreadStream {
+    on(event: 'open', listener: () => void): this;
+    on(event: 'update', listener: (update: LiveUpdate) => void): this;
+    on(event: 'activity', listener: (viewerCount: number) => void): this;
+    on(event: 'settings', listener: (settings: Record<string, unknown>) => void): this;
+    on(event: 'delete' | 'strike', listener: (updateName: string) => void): this;
+    on(event: 'embedsReady', listener: (updateName: string) => void): this;
+    on(event: 'reconnecting', listener: (attempt: number) => void): this;
+    on(event: 'complete' | 'close', listener: () => void): this;
+    on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * The websocket feed of a LiveThread, see `LiveThread.stream`.
+ * Dropped connections are reopened with a fresh websocket URL until `close()` is called or the thread completes.
+ */
+export class LiveThreadStream extends EventEmitter {
+    public readonly thread: LiveThread;
+    protected snooWrapped: SnooWrapped;
+
+    #socket?: WebSocket;
+    #attempts = 0;
+    #reconnectBackoffBase: number;
+    #maxReconnectAttempts: number;
+    #isClosed = false;
+    #reconnectTimer?: NodeJS.Timeout;
+
+    constructor(thread: LiveThread, snooWrapped: SnooWrapped, { reconnectBackoffBase = 1000, maxReconnectAttempts = 10 }: LiveThreadStreamOptions = {}) {
+        super();
+
+        this.thread = thread;
+        this.snooWrapped = snooWrapped;
+        this.#reconnectBackoffBase = reconnectBackoffBase;
+        this.#maxReconnectAttempts = maxReconnectAttempts;
+
+        void this._connect();
+    }
+
+    get isClosed() {
+        return this.#isClosed;
+    }
+
+    /**
+     * Disconnects from the thread, no more events are emitted after `close`.
+     */
+    close() {
+        if (this.isClosed) return;
+
+        this.#isClosed = true;
+        clearTimeout(this.#reconnectTimer);
+        this.#socket?.close();
+        this.emit('close');
+    }
+
+    private async _connect() {
+        try {
+            // Websocket URLs expire so get a fresh one for every connection, never from the response cache
+            const { data: { websocket_url: websocketUrl, state } }: { data: RawLiveThread; } = await this.snooWrapped.oauthRequest(`live/${this.thread.id}/about`, { scope: 'read' });
+            if (this.isClosed) return;
+            if (state === 'complete' || !websocketUrl) return this._complete();
+
+            const socket = new WebSocket(websocketUrl);
+            socket.on('open', () => {
+                this.#attempts = 0;
+                this.emit('open');
+            });
+            socket.on('message', data => this._handleMessage(data.toString()));
+            // Errors are always followed by a close event
+            socket.on('error', () => {});
+            socket.on('close', () => this._reconnect(new Error(`Lost connection to the live thread "${this.thread.name}".`)));
+            this.#socket = socket;
+        } catch (error) {
+            this._reconnect(error as Error);
+        }
+    }
+
+    private _reconnect(error: Error) {
+        if (this.isClosed) return;
+
+        this.#attempts++;
+        if (this.#attempts > this.#maxReconnectAttempts) {
+            // Emitting "error" without a listener would throw
+            if (this.listenerCount('error')) this.emit('error', error);
+            return this.close();
+        }
+
+        this.emit('reconnecting', this.#attempts);
+        this.#reconnectTimer = setTimeout(() => void this._connect(), backoffDelay(this.#attempts, this.#reconnectBackoffBase));
+    }
+
+    private _handleMessage(data: string) {
+        if (this.isClosed) return;
+
+        let message: LiveThreadMessage;
+        try {
+            message = JSON.parse(data);
+        } catch {
+            // A malformed frame shouldn't take the whole process down, emitting "error" without a listener would throw
+            if (this.listenerCount('error')) this.emit('error', new Error(`Received a malformed message from the live thread "${this.thread.name}".`));
+            return;
+        }
+
+        switch (message.type) {
+            case 'update':
+                return this.emit('update', LiveUpdate.fromRaw(message.payload.data, this.snooWrapped));
+            case 'activity':
+                return this.emit('activity', message.payload.count);
+            case 'settings':
+                return this.emit('settings', message.payload);
+            case 'delete':
+            case 'strike':
+                return this.emit(message.type, message.payload);
+            case 'embeds_ready':
+                return this.emit('embedsReady', `LiveUpdate_${message.payload.liveupdate_id}`);
+            case 'complete':
+                return this._complete();
+        }
+    }
+
+    private _complete() {
+        this.emit('complete');
+        this.close();
+    }
+}
@@ -0,0 +1,267 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { LiveThreadPermission } from "../types";
+import { addFullnamePrefix } from "../utils/add-fullname-prefix";
+import { formatPermissions } from "../utils/format-permissions";
+import { Listing, ListingOptions } from "./listing";
+import { LiveThreadStream, LiveThreadStreamOptions } from "./live-thread-stream";
+import { LiveUpdate } from "./live-update";
+import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+
+export interface RawLiveThread {
+    id: string;
+    title: string;
+    description: string;
+    resources: string;
+    state: 'live' | 'complete';
+    viewer_count: number | null;
+    websocket_url: string | null;
+    nsfw: boolean;
+    created_utc: number;
+};
+
+type RawUserList = {
+    kind: 'UserList';
+    data: { children: { id: string; name: string; permissions: (LiveThreadPermission | 'all')[]; }[]; };
+};
+
+export type LiveContributor = {
+    user: RedditUser;
+    permissions: (LiveThreadPermission | 'all')[];
+};
+
+/**
+ * A live thread, a stream of short updates about an ongoing event.
+ * @example
+ *
+ * sW.getLivethread('whrdxo8dg9n0').stream.on('update', update => console.log(update.body));
+ */
+export class LiveThread<Data extends {
+    name: string;
+    title?: string;
+    description?: string;
+    resources?: string;
+    state?: 'live' | 'complete';
+    viewerCount?: number;
+    websocketUrl?: string;
+    nsfw?: boolean;
+    created?: Date;
+} = {
+    name: string;
+    title?: string;
+    description?: string;
+    resources?: string;
+    state?: 'live' | 'complete';
+    viewerCount?: number;
+    websocketUrl?: string;
+    nsfw?: boolean;
+    created?: Date;
+}> extends RedditContent<Data> {
+    public title?: string;
+    public description?: string;
+    public resources?: string;
+    public state?: 'live' | 'complete';
+    public viewerCount?: number;
+    public websocketUrl?: string;
+    public nsfw?: boolean;
+    public created?: Date;
+
+    #stream?: LiveThreadStream;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.title = data.title;
+        this.description = data.description;
+        this.resources = data.resources;
+        this.state = data.state;
+        this.viewerCount = data.viewerCount;
+        this.websocketUrl = data.websocketUrl;
+        this.nsfw = data.nsfw;
+        this.created = data.created;
+    }
+
+    /**
+     * Creates a LiveThread from the raw `LiveUpdateEvent` data Reddit returns.
+     */
+    static fromRaw(threadData: RawLiveThread, snooWrapped: SnooWrapped) {
+        return new LiveThread({
+            name: addFullnamePrefix(threadData.id, 'LiveUpdateEvent_'),
+            title: threadData.title,
+            description: threadData.description,
+            resources: threadData.resources,
+            state: threadData.state,
+            viewerCount: threadData.viewer_count ?? undefined,
+            websocketUrl: threadData.websocket_url ?? undefined,
+            nsfw: threadData.nsfw,
+            created: new Date(threadData.created_utc * 1000)
+        }, snooWrapped);
+    }
+
+    /**
+     * The thread's id without the `LiveUpdateEvent_` prefix.
+     */
+    get id() {
+        return this.name.replace(/^LiveUpdateEvent_/, '');
+    }
+
+    protected get uri() {
+        return `live/${this.id}/about`;
+    }
+
+    protected _populate(data: { kind: 'LiveUpdateEvent'; data: RawLiveThread; }) {
+        return LiveThread.fromRaw(data.data, this.snooWrapped);
+    }
+
+    /**
+     * The thread's updates as they're posted, connecting the first time it's used.
+     * Call `close()` on it to disconnect.
+     * @example
+     *
+     * const stream = sW.getLivethread('whrdxo8dg9n0').stream;
+     * stream.on('update', update => console.log(update.body));
+     */
+    get stream() {
+        if (!this.#stream || this.#stream.isClosed) this.#stream = this.createStream();
+        return this.#stream;
+    }
+
+    /**
+     * Connects to the thread's updates with custom reconnection settings, see `stream`.
+     */
+    createStream(options: LiveThreadStreamOptions = {}) {
+        return new LiveThreadStream(this, this.snooWrapped, options);
+    }
+
+    /**
+     * Gets the thread's updates, newest first.
+     * @example
+     *
+     * sW.getLivethread('whrdxo8dg9n0').getRecentUpdates({ limit: 10 }).fetch();
+     */
+    getRecentUpdates(options: ListingOptions = {}) {
+        return new Listing<LiveUpdate>({ uri: `live/${this.id}`, options }, this.snooWrapped);
+    }
+
+    /**
+     * Posts an update to the thread, this requires the `update` permission.
+     * @param body The update's content, in markdown.
+     * @example await sW.getLivethread('whrdxo8dg9n0').addUpdate('Breaking news!');
+     */
+    async addUpdate(body: string) {
+        return this._fetch(`api/live/${this.id}/update`, { method: 'POST', scope: 'submit', form: { api_type: 'json', body } })
+            .then(() => this);
+    }
+
+    /**
+     * Strikes through an update to mark it as incorrect.
+     * @param update The update, or its id.
+     * @example await sW.getLivethread('whrdxo8dg9n0').strikeUpdate('LiveUpdate_1f6c9a24-0d6e-11e6-b4c9-0e5a1b1b6f39');
+     */
+    async strikeUpdate(update: string | LiveUpdate) {
+        return this._fetch(`api/live/${this.id}/strike_update`, { method: 'POST', scope: 'edit', form: { api_type: 'json', id: addFullnamePrefix(update, 'LiveUpdate_') } })
+            .then(() => this);
+    }
+
+    /**
+     * Deletes an update from the thread.
+     * @param update The update, or its id.
+     * @example await sW.getLivethread('whrdxo8dg9n0').deleteUpdate('1f6c9a24-0d6e-11e6-b4c9-0e5a1b1b6f39');
+     */
+    async deleteUpdate(update: string | LiveUpdate) {
+        return this._fetch(`api/live/${this.id}/delete_update`, { method: 'POST', scope: 'edit', form: { api_type: 'json', id: addFullnamePrefix(update, 'LiveUpdate_') } })
+            .then(() => this);
+    }
+
+    /**
+     * Gets the thread's contributors and their permissions.
+     * @example
+     *
+     * sW.getLivethread('whrdxo8dg9n0').getContributors().then(contributors => console.log(contributors[0].user.name));
+     * // => 'OmgImAlexis'
+     */
+    async getContributors(): Promise<LiveContributor[]> {
+        return this._fetch(`live/${this.id}/contributors`, { scope: 'read' })
+            .then((lists: RawUserList | RawUserList[]) => {
+                // Contributors also get a second list with the pending invites
+                const [contributors] = Array.isArray(lists) ? lists : [lists];
+                return contributors.data.children.map(contributor => ({
+                    user: new RedditUser({ name: contributor.name, id: contributor.id.replace(/^t2_/, '') }, this.snooWrapped),
+                    permissions: contributor.permissions
+                }));
+            });
+    }
+
+    /**
+     * Invites a user to contribute to the thread.
+     * @param permissions What the user may do, defaults to everything.
+     * @example await sW.getLivethread('whrdxo8dg9n0').inviteContributor({ user: 'spez', permissions: ['update'] });
+     */
+    async inviteContributor({ user, permissions }: { user: string | RedditUser; permissions?: LiveThreadPermission[]; }) {
+        return this._fetch(`api/live/${this.id}/invite_contributor`, {
+            method: 'POST',
+            scope: 'livemanage',
+            form: { api_type: 'json', name: typeof user === 'string' ? user : user.name, permissions: formatPermissions(permissions), type: 'liveupdate_contributor_invite' }
+        }).then(() => this);
+    }
+
+    /**
+     * Revokes a pending contributor invite.
+     * @example await sW.getLivethread('whrdxo8dg9n0').revokeContributorInvite('spez');
+     */
+    async revokeContributorInvite(user: string | RedditUser) {
+        const id = await this._userFullname(user);
+        return this._fetch(`api/live/${this.id}/rm_contributor_invite`, { method: 'POST', scope: 'livemanage', form: { api_type: 'json', id } })
+            .then(() => this);
+    }
+
+    /**
+     * Accepts an invite to contribute to the thread.
+     * @example await sW.getLivethread('whrdxo8dg9n0').acceptContributorInvite();
+     */
+    async acceptContributorInvite() {
+        return this._fetch(`api/live/${this.id}/accept_contributor_invite`, { method: 'POST', scope: 'livemanage', form: { api_type: 'json' } })
+            .then(() => this);
+    }
+
+    /**
+     * Stops the authenticated account contributing to the thread.
+     * @example await sW.getLivethread('whrdxo8dg9n0').leaveContributor();
+     */
+    async leaveContributor() {
+        return this._fetch(`api/live/${this.id}/leave_contributor`, { method: 'POST', scope: 'livemanage', form: { api_type: 'json' } })
+            .then(() => this);
+    }
+
+    /**
+     * Removes a contributor from the thread.
+     * @example await sW.getLivethread('whrdxo8dg9n0').removeContributor('spez');
+     */
+    async removeContributor(user: string | RedditUser) {
+        const id = await this._userFullname(user);
+        return this._fetch(`api/live/${this.id}/rm_contributor`, { method: 'POST', scope: 'livemanage', form: { api_type: 'json', id } })
+            .then(() => this);
+    }
+
+    /**
+     * Changes what a contributor may do.
+     * @param permissions What the user may do, defaults to everything.
+     * @example await sW.getLivethread('whrdxo8dg9n0').setContributorPermissions({ user: 'spez', permissions: ['update', 'edit'] });
+     */
+    async setContributorPermissions({ user, permissions }: { user: string | RedditUser; permissions?: LiveThreadPermission[]; }) {
+        return this._fetch(`api/live/${this.id}/set_contributor_permissions`, {
+            method: 'POST',
+            scope: 'livemanage',
+            form: { api_type: 'json', name: typeof user === 'string' ? user : user.name, permissions: formatPermissions(permissions), type: 'liveupdate_contributor' }
+        }).then(() => this);
+    }
+
+    /**
+     * Reddit identifies contributors by their fullname, fetching the user if we don't know their id yet.
+     */
+    private async _userFullname(user: string | RedditUser) {
+        const redditUser = typeof user === 'string' ? this.snooWrapped.getUser(user) : user;
+        const { id } = redditUser.id ? redditUser : await redditUser.fetch();
+        return addFullnamePrefix(id!, 't2_');
+    }
+}
@@ -0,0 +1,62 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+
+export interface RawLiveUpdate {
+    id: string;
+    name: string;
+    body: string;
+    author: string | null;
+    created_utc: number;
+    stricken: boolean;
+};
+
+/**
+ * A single update posted to a LiveThread.
+ */
+export class LiveUpdate<Data extends {
+    name: string;
+    id?: string;
+    body?: string;
+    author?: RedditUser;
+    created?: Date;
+    stricken?: boolean;
+} = {
+    name: string;
+    id?: string;
+    body?: string;
+    author?: RedditUser;
+    created?: Date;
+    stricken?: boolean;
+}> extends RedditContent<Data> {
+    public id?: string;
+    public body?: string;
+    public author?: RedditUser;
+    public created?: Date;
+    /** Whether the update has been struck through as incorrect. */
+    public stricken?: boolean;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.id = data.id;
+        this.body = data.body;
+        this.author = data.author;
+        this.created = data.created;
+        this.stricken = data.stricken;
+    }
+
+    /**
+     * Creates a LiveUpdate from the raw `LiveUpdate` data Reddit returns.
+     */
+    static fromRaw(updateData: RawLiveUpdate, snooWrapped: SnooWrapped) {
+        return new LiveUpdate({
+            name: updateData.name,
+            id: updateData.id,
+            body: updateData.body,
+            author: updateData.author ? new RedditUser({ name: updateData.author }, snooWrapped) : undefined,
+            created: new Date(updateData.created_utc * 1000),
+            stricken: updateData.stricken
+        }, snooWrapped);
+    }
+}
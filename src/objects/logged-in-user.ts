@@ -0,0 +1,119 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RawRedditUser, RedditUser, redditUserDataFromRaw } from "./reddit-user";
+import { Subreddit } from "./subreddit";
+
+export interface RawLoggedInUser extends RawRedditUser {
+    inbox_count: number;
+    has_mail: boolean;
+    has_mod_mail: boolean;
+};
+
+/**
+ * The authenticated account's preferences, keyed the way Reddit returns them (e.g. `over_18`, `show_flair`).
+ */
+export type UserPreferences = Record<string, boolean | number | string | null>;
+
+export type KarmaBreakdown = {
+    subreddit: Subreddit;
+    link: number;
+    comment: number;
+}[];
+
+interface RawKarmaList {
+    kind: 'KarmaList';
+    data: { sr: string; link_karma: number; comment_karma: number; }[];
+};
+
+/**
+ * The authenticated account, see `sW.getMe()`.
+ */
+export class LoggedInUser<Data extends {
+    name: string;
+    id?: string;
+    isVerified?: boolean;
+    isGold?: boolean;
+    isMod?: boolean;
+    hasVerifiedEmail?: boolean;
+    karma?: { awardee?: number; awarder?: number; link?: number; comment?: number; total?: number; };
+    acceptsFollowers?: boolean;
+    created?: Date;
+    inboxCount?: number;
+    hasMail?: boolean;
+    hasModMail?: boolean;
+} = {
+    name: string;
+    id?: string;
+    isVerified?: boolean;
+    isGold?: boolean;
+    isMod?: boolean;
+    hasVerifiedEmail?: boolean;
+    karma?: { awardee?: number; awarder?: number; link?: number; comment?: number; total?: number; };
+    acceptsFollowers?: boolean;
+    created?: Date;
+    inboxCount?: number;
+    hasMail?: boolean;
+    hasModMail?: boolean;
+}> extends RedditUser<Data> {
+    public inboxCount?: number;
+    public hasMail?: boolean;
+    public hasModMail?: boolean;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.inboxCount = data.inboxCount;
+        this.hasMail = data.hasMail;
+        this.hasModMail = data.hasModMail;
+    }
+
+    /**
+     * Creates a LoggedInUser from the data `api/v1/me` returns.
+     */
+    static fromRaw(userData: RawLoggedInUser, snooWrapped: SnooWrapped) {
+        return new LoggedInUser({
+            ...redditUserDataFromRaw(userData),
+            inboxCount: userData.inbox_count,
+            hasMail: userData.has_mail,
+            hasModMail: userData.has_mod_mail
+        }, snooWrapped);
+    }
+
+    protected get uri() {
+        return 'api/v1/me';
+    }
+
+    protected get fetchScope() {
+        return 'identity' as const;
+    }
+
+    protected _populate(userData: unknown) {
+        return LoggedInUser.fromRaw(userData as RawLoggedInUser, this.snooWrapped);
+    }
+
+    /**
+     * Gets the authenticated account's preferences.
+     * @example
+     *
+     * sW.getMe().then(me => me.getPreferences()).then(prefs => console.log(prefs.over_18));
+     * // => false
+     */
+    async getPreferences(): Promise<UserPreferences> {
+        return this._fetch('api/v1/me/prefs', { scope: 'identity' });
+    }
+
+    /**
+     * Gets the authenticated account's karma, broken down by subreddit.
+     * @example
+     *
+     * sW.getMe().then(me => me.getKarmaBreakdown()).then(karma => console.log(karma[0].subreddit.name, karma[0].link));
+     * // => 'AskReddit' 1337
+     */
+    async getKarmaBreakdown(): Promise<KarmaBreakdown> {
+        return this._fetch('api/v1/me/karma', { scope: 'mysubreddits' })
+            .then(({ data }: RawKarmaList) => data.map(entry => ({
+                subreddit: new Subreddit({ name: entry.sr }, this.snooWrapped),
+                link: entry.link_karma,
+                comment: entry.comment_karma
+            })));
+    }
+}
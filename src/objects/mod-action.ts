@@ -0,0 +1,103 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { ModLogAction } from "../types";
+import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+import { Subreddit } from "./subreddit";
+
+export interface RawModAction {
+    id: string;
+    action: ModLogAction;
+    mod: string;
+    subreddit: string;
+    created_utc: number;
+    details: string | null;
+    description: string | null;
+    target_fullname: string | null;
+    target_author: string | null;
+    target_title: string | null;
+    target_permalink: string | null;
+    target_body: string | null;
+};
+
+/**
+ * A single entry in a Subreddit's moderation log.
+ */
+export class ModAction<Data extends {
+    name: string;
+    action?: ModLogAction;
+    moderator?: RedditUser;
+    subreddit?: Subreddit;
+    created?: Date;
+    details?: string;
+    description?: string;
+    target?: {
+        fullname?: string;
+        author?: RedditUser;
+        title?: string;
+        permalink?: string;
+        body?: string;
+    };
+} = {
+    name: string;
+    action?: ModLogAction;
+    moderator?: RedditUser;
+    subreddit?: Subreddit;
+    created?: Date;
+    details?: string;
+    description?: string;
+    target?: {
+        fullname?: string;
+        author?: RedditUser;
+        title?: string;
+        permalink?: string;
+        body?: string;
+    };
+}> extends RedditContent<Data> {
+    public action?: ModLogAction;
+    public moderator?: RedditUser;
+    public subreddit?: Subreddit;
+    public created?: Date;
+    public details?: string;
+    public description?: string;
+    public target: { fullname?: string; author?: RedditUser; title?: string; permalink?: string; body?: string; };
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.action = data.action;
+        this.moderator = data.moderator;
+        this.subreddit = data.subreddit;
+        this.created = data.created;
+        this.details = data.details;
+        this.description = data.description;
+        this.target = {
+            fullname: data.target?.fullname,
+            author: data.target?.author,
+            title: data.target?.title,
+            permalink: data.target?.permalink,
+            body: data.target?.body
+        };
+    }
+
+    /**
+     * Creates a ModAction from the raw `modaction` data Reddit returns.
+     */
+    static fromRaw(modActionData: RawModAction, snooWrapped: SnooWrapped) {
+        return new ModAction({
+            name: modActionData.id,
+            action: modActionData.action,
+            moderator: new RedditUser({ name: modActionData.mod }, snooWrapped),
+            subreddit: new Subreddit({ name: modActionData.subreddit }, snooWrapped),
+            created: new Date(modActionData.created_utc * 1000),
+            details: modActionData.details ?? undefined,
+            description: modActionData.description ?? undefined,
+            target: {
+                fullname: modActionData.target_fullname ?? undefined,
+                author: modActionData.target_author ? new RedditUser({ name: modActionData.target_author }, snooWrapped) : undefined,
+                title: modActionData.target_title ?? undefined,
+                permalink: modActionData.target_permalink ?? undefined,
+                body: modActionData.target_body ?? undefined
+            }
+        }, snooWrapped);
+    }
+}
@@ -0,0 +1,227 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { ModmailConversationState } from "../types";
+import { ModmailMessage, RawModmailMessage, RawModmailParticipant } from "./modmail-message";
+import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+import { Subreddit } from "./subreddit";
+
+export interface RawModmailConversation {
+    id: string;
+    subject: string;
+    state: number;
+    isInternal: boolean;
+    isHighlighted: boolean;
+    isAuto: boolean;
+    numMessages: number;
+    lastUpdated: string;
+    lastUnread: string | null;
+    owner: { displayName: string; type: 'subreddit'; id: string; };
+    participant?: RawModmailParticipant | {};
+    authors: RawModmailParticipant[];
+    objIds: { id: string; key: 'messages' | 'modActions'; }[];
+};
+
+/**
+ * What Reddit sends back when a single conversation is fetched or changed.
+ */
+export type RawModmailConversationResponse = {
+    conversation: RawModmailConversation;
+    messages: Record<string, RawModmailMessage>;
+};
+
+// Reddit sends the state as a number
+const STATES: ModmailConversationState[] = ['new', 'inprogress', 'archived', 'appeals', 'join_requests', 'filtered'];
+
+/**
+ * A conversation in new modmail, between a Subreddit's moderators and optionally a user.
+ * @example
+ *
+ * const conversation = await sW.getConversation('1l7pjk').fetch();
+ * await conversation.reply({ body: 'Thanks, we\'ll take a look.' });
+ */
+export class ModmailConversation<Data extends {
+    name: string;
+    subject?: string;
+    state?: ModmailConversationState;
+    subreddit?: Subreddit;
+    participant?: RedditUser;
+    authors?: RedditUser[];
+    messages?: ModmailMessage[];
+    isInternal?: boolean;
+    isHighlighted?: boolean;
+    isAuto?: boolean;
+    numMessages?: number;
+    lastUpdated?: Date;
+    lastUnread?: Date;
+} = {
+    name: string;
+    subject?: string;
+    state?: ModmailConversationState;
+    subreddit?: Subreddit;
+    participant?: RedditUser;
+    authors?: RedditUser[];
+    messages?: ModmailMessage[];
+    isInternal?: boolean;
+    isHighlighted?: boolean;
+    isAuto?: boolean;
+    numMessages?: number;
+    lastUpdated?: Date;
+    lastUnread?: Date;
+}> extends RedditContent<Data> {
+    public subject?: string;
+    public state?: ModmailConversationState;
+    /** The Subreddit whose moderators the conversation is with. */
+    public subreddit?: Subreddit;
+    /** The user the moderators are talking to, `undefined` for discussions between moderators. */
+    public participant?: RedditUser;
+    /** Everyone who has sent a message in the conversation. */
+    public authors?: RedditUser[];
+    public messages?: ModmailMessage[];
+    /** Whether only moderators can see the conversation. */
+    public isInternal?: boolean;
+    public isHighlighted?: boolean;
+    /** Whether the conversation was started by Reddit, e.g. a ban notice. */
+    public isAuto?: boolean;
+    public numMessages?: number;
+    public lastUpdated?: Date;
+    /** When the oldest unread message was sent, `undefined` if every message has been read. */
+    public lastUnread?: Date;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.subject = data.subject;
+        this.state = data.state;
+        this.subreddit = data.subreddit;
+        this.participant = data.participant;
+        this.authors = data.authors;
+        this.messages = data.messages;
+        this.isInternal = data.isInternal;
+        this.isHighlighted = data.isHighlighted;
+        this.isAuto = data.isAuto;
+        this.numMessages = data.numMessages;
+        this.lastUpdated = data.lastUpdated;
+        this.lastUnread = data.lastUnread;
+    }
+
+    /**
+     * Creates a ModmailConversation from the raw data Reddit returns.
+     * @param messages The messages Reddit sent alongside the conversation, keyed by id.
+     */
+    static fromRaw(conversationData: RawModmailConversation, messages: Record<string, RawModmailMessage>, snooWrapped: SnooWrapped) {
+        const participant = conversationData.participant && 'name' in conversationData.participant ? conversationData.participant : undefined;
+
+        return new ModmailConversation({
+            name: conversationData.id,
+            subject: conversationData.subject,
+            state: STATES[conversationData.state],
+            subreddit: new Subreddit({ name: conversationData.owner.displayName }, snooWrapped),
+            participant: participant ? new RedditUser({ name: participant.name }, snooWrapped) : undefined,
+            authors: conversationData.authors.map(author => new RedditUser({ name: author.name }, snooWrapped)),
+            messages: conversationData.objIds
+                .filter(({ key, id }) => key === 'messages' && messages[id])
+                .map(({ id }) => ModmailMessage.fromRaw(messages[id], snooWrapped)),
+            isInternal: conversationData.isInternal,
+            isHighlighted: conversationData.isHighlighted,
+            isAuto: conversationData.isAuto,
+            numMessages: conversationData.numMessages,
+            lastUpdated: new Date(conversationData.lastUpdated),
+            lastUnread: conversationData.lastUnread ? new Date(conversationData.lastUnread) : undefined
+        }, snooWrapped);
+    }
+
+    protected get uri() {
+        return `api/mod/conversations/${this.name}`;
+    }
+
+    protected get fetchScope() {
+        return 'modmail' as const;
+    }
+
+    protected _populate(data: RawModmailConversationResponse) {
+        return ModmailConversation.fromRaw(data.conversation, data.messages, this.snooWrapped);
+    }
+
+    /**
+     * Replies to the conversation and resolves with the updated conversation.
+     * @param isInternal Send a private moderator note instead.
+     * @param isAuthorHidden Send the reply as the subreddit rather than the authenticated account.
+     * @example await sW.getConversation('1l7pjk').reply({ body: 'Thanks, we\'ll take a look.', isAuthorHidden: true });
+     */
+    async reply({ body, isInternal = false, isAuthorHidden = false }: { body: string; isInternal?: boolean; isAuthorHidden?: boolean; }) {
+        return this._fetchAndPopulate(this.uri, { method: 'POST', scope: 'modmail', form: { body, isInternal, isAuthorHidden } });
+    }
+
+    /**
+     * Archives the conversation.
+     * @example await sW.getConversation('1l7pjk').archive();
+     */
+    async archive() {
+        return this._fetch(`${this.uri}/archive`, { method: 'POST', scope: 'modmail' })
+            .then(() => this._withData({ state: 'archived' } as Partial<Data>));
+    }
+
+    /**
+     * Moves an archived conversation back to the inbox.
+     * @example await sW.getConversation('1l7pjk').unarchive();
+     */
+    async unarchive() {
+        return this._fetch(`${this.uri}/unarchive`, { method: 'POST', scope: 'modmail' })
+            .then(() => this._withData({ state: 'inprogress' } as Partial<Data>));
+    }
+
+    /**
+     * Highlights the conversation so it's easier for other moderators to find.
+     * @example await sW.getConversation('1l7pjk').highlight();
+     */
+    async highlight() {
+        return this._fetch(`${this.uri}/highlight`, { method: 'POST', scope: 'modmail' })
+            .then(() => this._withData({ isHighlighted: true } as Partial<Data>));
+    }
+
+    /**
+     * Removes the conversation's highlight.
+     * @example await sW.getConversation('1l7pjk').unhighlight();
+     */
+    async unhighlight() {
+        return this._fetch(`${this.uri}/highlight`, { method: 'DELETE', scope: 'modmail' })
+            .then(() => this._withData({ isHighlighted: false } as Partial<Data>));
+    }
+
+    /**
+     * Mutes the user in the conversation, stopping them from sending modmail to the subreddit.
+     * @param hours How long the mute lasts, Reddit only allows 72, 168 or 672 hours. Defaults to 72.
+     * @example await sW.getConversation('1l7pjk').mute({ hours: 168 });
+     */
+    async mute({ hours = 72 }: { hours?: 72 | 168 | 672; } = {}) {
+        return this._fetch(`${this.uri}/mute`, { method: 'POST', scope: 'modmail', form: { num_hours: hours } })
+            .then(() => this);
+    }
+
+    /**
+     * Unmutes the user in the conversation.
+     * @example await sW.getConversation('1l7pjk').unmute();
+     */
+    async unmute() {
+        return this._fetch(`${this.uri}/unmute`, { method: 'POST', scope: 'modmail' })
+            .then(() => this);
+    }
+
+    /**
+     * Marks the conversation as read.
+     * @example await sW.getConversation('1l7pjk').markAsRead();
+     */
+    async markAsRead() {
+        return this._fetch('api/mod/conversations/read', { method: 'POST', scope: 'modmail', form: { conversationIds: this.name } })
+            .then(() => this._withData({ lastUnread: undefined } as Partial<Data>));
+    }
+
+    /**
+     * Marks the conversation as unread.
+     * @example await sW.getConversation('1l7pjk').markAsUnread();
+     */
+    async markAsUnread() {
+        return this._fetch('api/mod/conversations/unread', { method: 'POST', scope: 'modmail', form: { conversationIds: this.name } })
+            .then(() => this);
+    }
+}
@@ -0,0 +1,82 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+
+/**
+ * Someone taking part in a modmail conversation.
+ */
+export interface RawModmailParticipant {
+    name: string;
+    isMod: boolean;
+    isAdmin: boolean;
+    isOp: boolean;
+    isParticipant: boolean;
+    isHidden: boolean;
+    isDeleted: boolean;
+};
+
+export interface RawModmailMessage {
+    id: string;
+    body: string;
+    bodyMarkdown: string;
+    author: RawModmailParticipant;
+    isInternal: boolean;
+    date: string;
+};
+
+/**
+ * A single message in a ModmailConversation.
+ */
+export class ModmailMessage<Data extends {
+    name: string;
+    body?: string;
+    bodyHtml?: string;
+    author?: RedditUser;
+    isAuthorHidden?: boolean;
+    isInternal?: boolean;
+    created?: Date;
+} = {
+    name: string;
+    body?: string;
+    bodyHtml?: string;
+    author?: RedditUser;
+    isAuthorHidden?: boolean;
+    isInternal?: boolean;
+    created?: Date;
+}> extends RedditContent<Data> {
+    /** The message's content, in markdown. */
+    public body?: string;
+    public bodyHtml?: string;
+    public author?: RedditUser;
+    /** Whether the message was sent as the subreddit rather than the moderator who wrote it. */
+    public isAuthorHidden?: boolean;
+    /** Whether the message is a private moderator note. */
+    public isInternal?: boolean;
+    public created?: Date;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.body = data.body;
+        this.bodyHtml = data.bodyHtml;
+        this.author = data.author;
+        this.isAuthorHidden = data.isAuthorHidden;
+        this.isInternal = data.isInternal;
+        this.created = data.created;
+    }
+
+    /**
+     * Creates a ModmailMessage from the raw data Reddit returns.
+     */
+    static fromRaw(messageData: RawModmailMessage, snooWrapped: SnooWrapped) {
+        return new ModmailMessage({
+            name: messageData.id,
+            body: messageData.bodyMarkdown,
+            bodyHtml: messageData.body,
+            author: new RedditUser({ name: messageData.author.name }, snooWrapped),
+            isAuthorHidden: messageData.author.isHidden,
+            isInternal: messageData.isInternal,
+            created: new Date(messageData.date)
+        }, snooWrapped);
+    }
+}
@@ -0,0 +1,153 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { CommentSort, RawJsonResponse, RawListing, RawThing } from "../types";
+import { Comment, RawCommentData } from "./comment";
+import { RedditContent } from "./reddit-content";
+
+export type RawMoreComments = {
+    name: string;
+    id: string;
+    parent_id: string;
+    depth: number;
+    count: number;
+    children: string[];
+};
+
+type RawMoreChildren = RawJsonResponse<{ things: RawThing[]; }>;
+
+/**
+ * Builds a tree out of the flat list of comments returned by `api/morechildren`.
+ * Returns the comments and "load more comments" placeholder that belong directly under `parentId`.
+ */
+const buildCommentTree = (things: RawThing[], parentId: string, submissionName: string, sort: CommentSort | undefined, snooWrapped: SnooWrapped) => {
+    const byName = new Map<string, Comment>();
+    const moreByParent = new Map<string, MoreComments>();
+    const comments: Comment[] = [];
+
+    // Placeholders are collected first so they end up in their comment's data
+    things.forEach(thing => {
+        if (thing.kind === 'more') moreByParent.set(thing.data.parent_id, MoreComments.fromRaw(thing.data as RawMoreComments, submissionName, sort, snooWrapped));
+    });
+
+    things.forEach(thing => {
+        if (thing.kind !== 't1') return;
+
+        const parent = byName.get(thing.data.parent_id);
+        const rawComment = Comment.fromRaw(thing.data as RawCommentData, snooWrapped, sort);
+        const comment = rawComment.withReplies(rawComment.replies ?? [], moreByParent.get(rawComment.name) ?? rawComment.moreReplies);
+        byName.set(comment.name, comment);
+        if (parent) parent.replies?.push(comment);
+        else if (thing.data.parent_id === parentId) comments.push(comment);
+    });
+
+    return { comments, more: moreByParent.get(parentId) };
+};
+
+/**
+ * A "load more comments" placeholder in a comment tree.
+ * @example
+ *
+ * const submission = await sW.getSubmission('2np694').fetch();
+ * const { comments } = await submission.moreComments.expand();
+ */
+export class MoreComments<Data extends {
+    name: string;
+    submission: string;
+    parentId: string;
+    depth?: number;
+    count?: number;
+    children?: string[];
+    sort?: CommentSort;
+} = {
+    name: string;
+    submission: string;
+    parentId: string;
+    depth?: number;
+    count?: number;
+    children?: string[];
+    sort?: CommentSort;
+}> extends RedditContent<Data> {
+    public submission: string;
+    public parentId: string;
+    public depth?: number;
+    public count?: number;
+    public children: string[];
+    public sort?: CommentSort;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.submission = data.submission;
+        this.parentId = data.parentId;
+        this.depth = data.depth;
+        this.count = data.count;
+        this.children = data.children ?? [];
+        this.sort = data.sort;
+    }
+
+    /**
+     * Creates a MoreComments from the raw `more` data Reddit returns.
+     * @param submissionName The fullname of the submission the comments are on.
+     */
+    static fromRaw(moreData: RawMoreComments, submissionName: string, sort: CommentSort | undefined, snooWrapped: SnooWrapped) {
+        return new MoreComments({
+            name: moreData.name,
+            submission: submissionName,
+            parentId: moreData.parent_id,
+            depth: moreData.depth,
+            count: moreData.count,
+            children: moreData.children,
+            sort
+        }, snooWrapped);
+    }
+
+    /**
+     * Fetches the comments this placeholder stands in for.
+     * Resolves with the new comments and, if Reddit held some back, another placeholder for the rest.
+     * @example
+     *
+     * const { comments, more } = await submission.moreComments.expand();
+     */
+    async expand(): Promise<{ comments: Comment[]; more?: MoreComments; }> {
+        // "Continue this thread" placeholders have no children, the thread has to be fetched from its parent instead
+        if (this.children.length === 0) return this._expandThread();
+
+        // Reddit returns at most 100 comments per request
+        const chunks: string[][] = [];
+        for (let index = 0; index < this.children.length; index += 100) {
+            chunks.push(this.children.slice(index, index + 100));
+        }
+
+        let things: RawThing[] = [];
+        for (const chunk of chunks) {
+            const response: RawMoreChildren = await this._fetch('api/morechildren', {
+                scope: 'read',
+                query: {
+                    api_type: 'json',
+                    link_id: this.submission,
+                    children: chunk.join(','),
+                    sort: this.sort,
+                    limit_children: false
+                }
+            });
+            things = things.concat(response.json.data.things);
+        }
+
+        return buildCommentTree(things, this.parentId, this.submission, this.sort, this.snooWrapped);
+    }
+
+    private async _expandThread() {
+        const [, comments]: [unknown, RawListing<RawThing<'t1', RawCommentData>>] = await this._fetch(`comments/${this.submission.substring(3)}`, {
+            scope: 'read',
+            query: {
+                comment: this.parentId.substring(3),
+                sort: this.sort
+            }
+        });
+
+        const [parent] = comments.data.children;
+        if (!parent) return { comments: [] };
+
+        const parentComment = Comment.fromRaw(parent.data, this.snooWrapped, this.sort);
+        return { comments: parentComment.replies ?? [], more: parentComment.moreReplies };
+    }
+}
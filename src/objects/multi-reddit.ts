@@ -0,0 +1,228 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RawThing, TimeFilter } from "../types";
+import { Listing, ListingOptions } from "./listing";
+import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+import { Submission } from "./submission";
+import { Subreddit } from "./subreddit";
+
+export type MultiRedditVisibility = 'private' | 'public' | 'hidden';
+
+export interface RawMultiReddit {
+    name: string;
+    display_name: string;
+    path: string;
+    owner: string;
+    description_md: string;
+    visibility: MultiRedditVisibility;
+    subreddits: { name: string; }[];
+    over_18: boolean;
+    can_edit: boolean;
+    copied_from: string | null;
+    icon_url: string;
+    key_color: string;
+    created_utc: number;
+};
+
+/**
+ * A multireddit, also called a custom feed, combines the Submissions of several subreddits.
+ * @example
+ *
+ * const [multi] = await sW.getMyMultireddits();
+ * await multi.addSubreddit('snoowrap');
+ */
+export class MultiReddit<Data extends {
+    name: string;
+    owner: RedditUser;
+    displayName?: string;
+    description?: string;
+    visibility?: MultiRedditVisibility;
+    subreddits?: Subreddit[];
+    nsfw?: boolean;
+    canEdit?: boolean;
+    copiedFrom?: string;
+    iconUrl?: string;
+    keyColor?: string;
+    created?: Date;
+} = {
+    name: string;
+    owner: RedditUser;
+    displayName?: string;
+    description?: string;
+    visibility?: MultiRedditVisibility;
+    subreddits?: Subreddit[];
+    nsfw?: boolean;
+    canEdit?: boolean;
+    copiedFrom?: string;
+    iconUrl?: string;
+    keyColor?: string;
+    created?: Date;
+}> extends RedditContent<Data> {
+    public owner: RedditUser;
+    public displayName?: string;
+    /** The multireddit's description, in markdown. */
+    public description?: string;
+    public visibility?: MultiRedditVisibility;
+    public subreddits?: Subreddit[];
+    public nsfw?: boolean;
+    /** Whether the authenticated account may change this multireddit. */
+    public canEdit?: boolean;
+    /** The path of the multireddit this one was copied from. */
+    public copiedFrom?: string;
+    public iconUrl?: string;
+    public keyColor?: string;
+    public created?: Date;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.owner = data.owner;
+        this.displayName = data.displayName;
+        this.description = data.description;
+        this.visibility = data.visibility;
+        this.subreddits = data.subreddits;
+        this.nsfw = data.nsfw;
+        this.canEdit = data.canEdit;
+        this.copiedFrom = data.copiedFrom;
+        this.iconUrl = data.iconUrl;
+        this.keyColor = data.keyColor;
+        this.created = data.created;
+    }
+
+    /**
+     * Creates a MultiReddit from the raw `LabeledMulti` data Reddit returns.
+     */
+    static fromRaw(multiData: RawMultiReddit, snooWrapped: SnooWrapped) {
+        return new MultiReddit({
+            name: multiData.name,
+            owner: new RedditUser({ name: multiData.owner }, snooWrapped),
+            displayName: multiData.display_name,
+            description: multiData.description_md,
+            visibility: multiData.visibility,
+            subreddits: multiData.subreddits.map(subreddit => new Subreddit({ name: subreddit.name }, snooWrapped)),
+            nsfw: multiData.over_18,
+            canEdit: multiData.can_edit,
+            copiedFrom: multiData.copied_from ?? undefined,
+            iconUrl: multiData.icon_url,
+            keyColor: multiData.key_color,
+            created: new Date(multiData.created_utc * 1000)
+        }, snooWrapped);
+    }
+
+    /**
+     * Where the multireddit lives, e.g. `user/OmgImAlexis/m/programming`.
+     */
+    get path() {
+        return `user/${this.owner.name}/m/${this.name}`;
+    }
+
+    protected get uri() {
+        return `api/multi/${this.path}`;
+    }
+
+    protected _populate(data: RawThing<'LabeledMulti', RawMultiReddit>) {
+        return MultiReddit.fromRaw(data.data, this.snooWrapped);
+    }
+
+    /**
+     * Gets the "hot" Submissions on this multireddit.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getMultireddits().then(([multi]) => multi.getHot({ limit: 10 }).fetch());
+     */
+    getHot(options: ListingOptions = {}) {
+        return new Listing<Submission>({ uri: `${this.path}/hot`, options }, this.snooWrapped);
+    }
+
+    /**
+     * Gets the newest Submissions on this multireddit.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getMultireddits().then(([multi]) => multi.getNew().fetch());
+     */
+    getNew(options: ListingOptions = {}) {
+        return new Listing<Submission>({ uri: `${this.path}/new`, options }, this.snooWrapped);
+    }
+
+    /**
+     * Gets the top Submissions on this multireddit.
+     * @param time The period to get Submissions from, defaults to `day`.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getMultireddits().then(([multi]) => multi.getTop({ time: 'week' }).fetch());
+     */
+    getTop({ time, ...options }: ListingOptions & { time?: TimeFilter; } = {}) {
+        return new Listing<Submission>({ uri: `${this.path}/top`, query: { t: time }, options }, this.snooWrapped);
+    }
+
+    /**
+     * Adds a subreddit to this multireddit.
+     * @example await multi.addSubreddit('snoowrap');
+     */
+    async addSubreddit(subreddit: string | Subreddit) {
+        const name = typeof subreddit === 'string' ? subreddit : subreddit.name;
+        return this._fetch(`${this.uri}/r/${name}`, { method: 'PUT', scope: 'subscribe', form: { model: JSON.stringify({ name }) } })
+            .then(() => this._withData({
+                subreddits: this.subreddits && [...this.subreddits, new Subreddit({ name }, this.snooWrapped)]
+            } as Partial<Data>));
+    }
+
+    /**
+     * Removes a subreddit from this multireddit.
+     * @example await multi.removeSubreddit('snoowrap');
+     */
+    async removeSubreddit(subreddit: string | Subreddit) {
+        const name = typeof subreddit === 'string' ? subreddit : subreddit.name;
+        return this._fetch(`${this.uri}/r/${name}`, { method: 'DELETE', scope: 'subscribe' })
+            .then(() => this._withData({
+                subreddits: this.subreddits?.filter(item => item.name.toLowerCase() !== name.toLowerCase())
+            } as Partial<Data>));
+    }
+
+    /**
+     * Copies this multireddit to the authenticated account.
+     * @param newName The name of the copy.
+     * @example await multi.copy({ newName: 'my-programming' });
+     */
+    async copy({ newName }: { newName: string; }) {
+        const me = await this.snooWrapped.getMe();
+        return this._fetch('api/multi/copy', {
+            method: 'POST',
+            scope: 'subscribe',
+            form: { from: this.path, to: `user/${me.name}/m/${newName}`, display_name: newName }
+        }).then((data: RawThing<'LabeledMulti', RawMultiReddit>) => MultiReddit.fromRaw(data.data, this.snooWrapped));
+    }
+
+    /**
+     * Renames this multireddit, which also changes its path.
+     * @example await multi.rename({ newName: 'programming-languages' });
+     */
+    async rename({ newName }: { newName: string; }) {
+        return this._fetch('api/multi/rename', {
+            method: 'POST',
+            scope: 'subscribe',
+            form: { from: this.path, to: `user/${this.owner.name}/m/${newName}`, display_name: newName }
+        }).then((data: RawThing<'LabeledMulti', RawMultiReddit>) => MultiReddit.fromRaw(data.data, this.snooWrapped));
+    }
+
+    /**
+     * Changes this multireddit's visibility or description.
+     * @example await multi.edit({ visibility: 'public', description: 'Programming subreddits' });
+     */
+    async edit({ visibility, description }: { visibility?: MultiRedditVisibility; description?: string; }) {
+        return this._fetchAndPopulate(this.uri, {
+            method: 'PUT',
+            scope: 'subscribe',
+            form: { model: JSON.stringify({ visibility, description_md: description }) }
+        });
+    }
+
+    /**
+     * Deletes this multireddit.
+     * @example await multi.delete();
+     */
+    async delete() {
+        return this._fetch(this.uri, { method: 'DELETE', scope: 'subscribe' })
+            .then(() => this);
+    }
+}
@@ -0,0 +1,169 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RawJsonResponse, RawListing, RawThing } from "../types";
+import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+import { Subreddit } from "./subreddit";
+
+export interface RawPrivateMessage {
+    name: string;
+    author: string | null;
+    dest: string;
+    subject: string;
+    body: string;
+    created_utc: number;
+    new: boolean;
+    parent_id: string | null;
+    first_message_name: string | null;
+    subreddit: string | null;
+    replies: RawListing<RawThing<'t4', RawPrivateMessage>> | '';
+};
+
+type RawMessageThread = RawListing<RawThing<'t4', RawPrivateMessage>>;
+
+type RawMessageReply = RawJsonResponse<{ things: RawThing<'t4', RawPrivateMessage>[]; }>;
+
+/**
+ * Finds a message in a thread by its fullname.
+ */
+const findMessage = (messages: RawPrivateMessage[], name: string): RawPrivateMessage | undefined => {
+    for (const message of messages) {
+        if (message.name === name) return message;
+        const reply = findMessage(message.replies ? message.replies.data.children.map(child => child.data) : [], name);
+        if (reply) return reply;
+    }
+    return undefined;
+};
+
+/**
+ * A private message in the authenticated account's inbox.
+ */
+export class PrivateMessage<Data extends {
+    name: string;
+    subject?: string;
+    body?: string;
+    author?: RedditUser;
+    /** The recipient, messages sent to a subreddit's moderators have a Subreddit here. */
+    recipient?: RedditUser | Subreddit;
+    subreddit?: Subreddit;
+    created?: Date;
+    isUnread?: boolean;
+    parentId?: string;
+    firstMessageName?: string;
+    replies?: PrivateMessage[];
+} = {
+    name: string;
+    subject?: string;
+    body?: string;
+    author?: RedditUser;
+    recipient?: RedditUser | Subreddit;
+    subreddit?: Subreddit;
+    created?: Date;
+    isUnread?: boolean;
+    parentId?: string;
+    firstMessageName?: string;
+    replies?: PrivateMessage[];
+}> extends RedditContent<Data> {
+    public subject?: string;
+    public body?: string;
+    public author?: RedditUser;
+    public recipient?: RedditUser | Subreddit;
+    public subreddit?: Subreddit;
+    public created?: Date;
+    public isUnread?: boolean;
+    public parentId?: string;
+    public firstMessageName?: string;
+    public replies: PrivateMessage[];
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.subject = data.subject;
+        this.body = data.body;
+        this.author = data.author;
+        this.recipient = data.recipient;
+        this.subreddit = data.subreddit;
+        this.created = data.created;
+        this.isUnread = data.isUnread;
+        this.parentId = data.parentId;
+        this.firstMessageName = data.firstMessageName;
+        this.replies = data.replies ?? [];
+    }
+
+    /**
+     * Creates a PrivateMessage from the raw `t4` data Reddit returns, including any replies.
+     */
+    static fromRaw(messageData: RawPrivateMessage, snooWrapped: SnooWrapped): PrivateMessage {
+        const replies = messageData.replies ? messageData.replies.data.children : [];
+
+        return new PrivateMessage({
+            name: messageData.name,
+            subject: messageData.subject,
+            body: messageData.body,
+            author: messageData.author ? new RedditUser({ name: messageData.author }, snooWrapped) : undefined,
+            recipient: messageData.dest.startsWith('#')
+                ? new Subreddit({ name: messageData.dest.slice(1) }, snooWrapped)
+                : new RedditUser({ name: messageData.dest }, snooWrapped),
+            subreddit: messageData.subreddit ? new Subreddit({ name: messageData.subreddit }, snooWrapped) : undefined,
+            created: new Date(messageData.created_utc * 1000),
+            isUnread: messageData.new,
+            parentId: messageData.parent_id ?? undefined,
+            firstMessageName: messageData.first_message_name ?? undefined,
+            replies: replies.map(reply => PrivateMessage.fromRaw(reply.data, snooWrapped))
+        }, snooWrapped);
+    }
+
+    protected get uri() {
+        return `message/messages/${this.name.replace(/^t4_/, '')}`;
+    }
+
+    protected get fetchScope() {
+        return 'privatemessages' as const;
+    }
+
+    protected _populate(thread: RawMessageThread) {
+        const message = findMessage(thread.data.children.map(child => child.data), this.name);
+        if (!message) return;
+
+        return PrivateMessage.fromRaw(message, this.snooWrapped);
+    }
+
+    /**
+     * Replies to this message.
+     * @param text The reply's content, in markdown.
+     * @example
+     *
+     * sW.getMessage('51shnw').reply('Thanks!').then(message => console.log(message.name));
+     * // => 't4_51sk2m'
+     */
+    async reply(text: string) {
+        return this._fetch('api/comment', { method: 'POST', scope: 'privatemessages', form: { api_type: 'json', thing_id: this.name, text } })
+            .then(({ json }: RawMessageReply) => PrivateMessage.fromRaw(json.data.things[0].data, this.snooWrapped));
+    }
+
+    /**
+     * Marks this message as read.
+     * @example await sW.getMessage('51shnw').markAsRead();
+     */
+    async markAsRead() {
+        return this._fetch('api/read_message', { method: 'POST', scope: 'privatemessages', form: { id: this.name } })
+            .then(() => this._withData({ isUnread: false } as Partial<Data>));
+    }
+
+    /**
+     * Marks this message as unread.
+     * @example await sW.getMessage('51shnw').markAsUnread();
+     */
+    async markAsUnread() {
+        return this._fetch('api/unread_message', { method: 'POST', scope: 'privatemessages', form: { id: this.name } })
+            .then(() => this._withData({ isUnread: true } as Partial<Data>));
+    }
+
+    /**
+     * Deletes this message from the authenticated account's inbox, the other party keeps their copy.
+     * @example await sW.getMessage('51shnw').deleteFromInbox();
+     */
+    async deleteFromInbox() {
+        return this._fetch('api/del_msg', { method: 'POST', scope: 'privatemessages', form: { id: this.name } })
+            .then(() => this);
+    }
+}
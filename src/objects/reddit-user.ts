@@ -1,9 +1,16 @@
 import { SnooWrapped } from "../snoo-wrapped";
+import { Flair, RawThing, TimeFilter } from "../types";
+import { addFullnamePrefix } from "../utils/add-fullname-prefix";
+import { Comment } from "./comment";
+import { Listing, ListingOptions } from "./listing";
+import { MultiReddit, RawMultiReddit } from "./multi-reddit";
 import { RedditContent } from "./reddit-content";
+import { Submission } from "./submission";
+import { Subreddit } from "./subreddit";
 
 type MissingEndpoint = { message: 'Not Found'; error: number; };
 
-interface RawRedditUser {
+export interface RawRedditUser {
     name: string;
     id: string;
     verified: boolean;
@@ -16,7 +23,57 @@ interface RawRedditUser {
     comment_karma: number;
     total_karma: number;
     accept_followers: boolean;
-    created: number;
+    created_utc: number;
+};
+
+/**
+ * Maps the raw `t2` data Reddit returns to the data a RedditUser is created with.
+ */
+export const redditUserDataFromRaw = (redditUserData: RawRedditUser) => ({
+    name: redditUserData.name,
+    id: redditUserData.id,
+    isVerified: redditUserData.verified,
+    isGold: redditUserData.is_gold,
+    isMod: redditUserData.is_mod,
+    hasVerifiedEmail: redditUserData.has_verified_email,
+    karma: {
+        awardee: redditUserData.awardee_karma,
+        awarder: redditUserData.awarder_karma,
+        link: redditUserData.link_karma,
+        comment: redditUserData.comment_karma,
+        total: redditUserData.total_karma
+    },
+    acceptsFollowers: redditUserData.accept_followers,
+    created: new Date(redditUserData.created_utc * 1000),
+});
+
+export type UserHistoryOptions = ListingOptions & {
+    sort?: 'hot' | 'new' | 'top' | 'controversial';
+    /** The period to get content from, only used when sorting by `top` or `controversial`. */
+    time?: TimeFilter;
+};
+
+export type Trophy = {
+    name: string;
+    description?: string;
+    icon?: string;
+    url?: string;
+    granted?: Date;
+};
+
+interface RawTrophyList {
+    kind: 'TrophyList';
+    data: {
+        trophies: {
+            kind: 't6';
+            data: { name: string; description: string | null; icon_70: string; url: string | null; granted_at: number | null; };
+        }[];
+    };
+};
+
+interface RawModeratedList {
+    kind: 'ModeratedList';
+    data: { sr: string; title: string; subscribers: number; over_18: boolean; created_utc: number; }[];
 };
 
 interface RawResult {
@@ -34,6 +91,7 @@ export class RedditUser<Data extends {
     karma?: { awardee?: number; awarder?: number; link?: number; comment?: number; total?: number; };
     acceptsFollowers?: boolean;
     created?: Date;
+    flair?: Flair;
 } = {
     name: string;
     id?: string;
@@ -44,6 +102,7 @@ export class RedditUser<Data extends {
     karma?: { awardee?: number; awarder?: number; link?: number; comment?: number; total?: number; };
     acceptsFollowers?: boolean;
     created?: Date;
+    flair?: Flair;
 }> extends RedditContent<Data> {
     public id?: string;
     public isVerified?: boolean;
@@ -53,6 +112,8 @@ export class RedditUser<Data extends {
     public karma?: { awardee?: number; awarder?: number; link?: number; comment?: number; total?: number; };
     public acceptsFollowers?: boolean;
     public created?: Date;
+    /** The user's flair on the subreddit they were seen on, e.g. as the author of a Submission. */
+    public flair?: Flair;
 
     constructor(data: Data, snooWrapped: SnooWrapped) {
         super(data, snooWrapped);
@@ -71,34 +132,192 @@ export class RedditUser<Data extends {
         };
         this.acceptsFollowers = data.acceptsFollowers;
         this.created = data.created;
+        this.flair = data.flair;
+    }
+
+    /**
+     * Creates a RedditUser from the raw `t2` data Reddit returns.
+     */
+    static fromRaw(redditUserData: RawRedditUser, snooWrapped: SnooWrapped) {
+        return new RedditUser(redditUserDataFromRaw(redditUserData), snooWrapped);
     }
 
     protected _populate(data: MissingEndpoint | RawResult) {
         if ('error' in data && data.error === 404) return;
         if ('kind' in data && data.kind !== 't2') return;
 
-        const redditUserData = (data as RawResult).data;
-
-        return new RedditUser({
-            ...this.data,
-            id: redditUserData.id,
-            isVerified: redditUserData.verified,
-            isGold: redditUserData.is_gold,
-            isMod: redditUserData.is_mod,
-            hasVerifiedEmail: redditUserData.has_verified_email,
-            karma: {
-                awardee: redditUserData.awardee_karma,
-                awarder: redditUserData.awarder_karma,
-                link: redditUserData.link_karma,
-                comment: redditUserData.comment_karma,
-                total: redditUserData.total_karma
-            },
-            acceptsFollowers: redditUserData.accept_followers,
-            created: new Date(redditUserData.created),
-        }, this.snooWrapped);
+        return RedditUser.fromRaw((data as RawResult).data, this.snooWrapped);
     }
 
     protected get uri() {
         return `user/${this.name}/about`;
     }
-};
\ No newline at end of file
+
+    /**
+     * Gets the content this user has saved.
+     * **Note:** This only works for the authenticated account.
+     * @param type Only include Submissions (`links`) or Comments (`comments`).
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getSaved({ type: 'comments' }).fetch();
+     */
+    getSaved({ type, ...options }: ListingOptions & { type?: 'links' | 'comments'; } = {}) {
+        return new Listing<Comment | Submission>({ uri: `user/${this.name}/saved`, query: { type }, options, scope: 'history' }, this.snooWrapped);
+    }
+
+    /**
+     * Gets this user's Submissions and Comments, newest first by default.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getOverview({ sort: 'top', time: 'year' }).fetch();
+     */
+    getOverview(options: UserHistoryOptions = {}) {
+        return this._getHistory<Comment | Submission>('overview', options);
+    }
+
+    /**
+     * Gets the Submissions this user has made.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getSubmissions({ sort: 'new' }).fetch();
+     */
+    getSubmissions(options: UserHistoryOptions = {}) {
+        return this._getHistory<Submission>('submitted', options);
+    }
+
+    /**
+     * Gets the Comments this user has made.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getComments({ sort: 'controversial', time: 'all' }).fetch();
+     */
+    getComments(options: UserHistoryOptions = {}) {
+        return this._getHistory<Comment>('comments', options);
+    }
+
+    /**
+     * Gets the content this user has upvoted.
+     * **Note:** This only works for the authenticated account or users who made their votes public.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getUpvotedContent().fetch();
+     */
+    getUpvotedContent(options: UserHistoryOptions = {}) {
+        return this._getHistory<Comment | Submission>('upvoted', options);
+    }
+
+    /**
+     * Gets the content this user has downvoted.
+     * **Note:** This only works for the authenticated account or users who made their votes public.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getDownvotedContent().fetch();
+     */
+    getDownvotedContent(options: UserHistoryOptions = {}) {
+        return this._getHistory<Comment | Submission>('downvoted', options);
+    }
+
+    /**
+     * Gets this user's content that has received awards.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getGildedContent().fetch();
+     */
+    getGildedContent(options: UserHistoryOptions = {}) {
+        return this._getHistory<Comment | Submission>('gilded', options);
+    }
+
+    /**
+     * Gets the trophies shown on this user's profile.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getTrophies().then(trophies => console.log(trophies[0].name));
+     * // => 'Verified Email'
+     */
+    async getTrophies(): Promise<Trophy[]> {
+        return this._fetch(`api/v1/user/${this.name}/trophies`, { scope: 'read' })
+            .then(({ data }: RawTrophyList) => data.trophies.map(({ data: trophy }) => ({
+                name: trophy.name,
+                description: trophy.description ?? undefined,
+                icon: trophy.icon_70,
+                url: trophy.url ?? undefined,
+                granted: trophy.granted_at ? new Date(trophy.granted_at * 1000) : undefined
+            })));
+    }
+
+    /**
+     * Gets this user's public multireddits, or all of them for the authenticated account.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getMultireddits().then(multis => console.log(multis[0].path));
+     * // => 'user/OmgImAlexis/m/programming'
+     */
+    async getMultireddits(): Promise<MultiReddit[]> {
+        return this._fetch(`api/multi/user/${this.name}`, { scope: 'read' })
+            .then((multis: RawThing<'LabeledMulti', RawMultiReddit>[]) => multis.map(multi => MultiReddit.fromRaw(multi.data, this.snooWrapped)));
+    }
+
+    /**
+     * Gets the subreddits this user moderates.
+     * @example
+     *
+     * sW.getUser('OmgImAlexis').getModeratedSubreddits().then(subreddits => console.log(subreddits[0].name));
+     * // => 'snoowrap'
+     */
+    async getModeratedSubreddits(): Promise<Subreddit[]> {
+        return this._fetch(`user/${this.name}/moderated_subreddits`, { scope: 'read' })
+            .then(({ data }: RawModeratedList) => (data ?? []).map(subreddit => new Subreddit({
+                name: subreddit.sr,
+                title: subreddit.title,
+                subscribers: subreddit.subscribers,
+                nsfw: subreddit.over_18,
+                created: new Date(subreddit.created_utc * 1000)
+            }, this.snooWrapped)));
+    }
+
+    /**
+     * Adds this user to the authenticated account's friends.
+     * @param note A note shown next to the friend, this requires Reddit Premium.
+     * @example await sW.getUser('spez').friend();
+     */
+    async friend({ note }: { note?: string; } = {}) {
+        return this._fetch(`api/v1/me/friends/${this.name}`, {
+            method: 'PUT',
+            scope: 'subscribe',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: this.name, note })
+        }).then(() => this);
+    }
+
+    /**
+     * Removes this user from the authenticated account's friends.
+     * @example await sW.getUser('spez').unfriend();
+     */
+    async unfriend() {
+        return this._fetch(`api/v1/me/friends/${this.name}`, { method: 'DELETE', scope: 'subscribe' })
+            .then(() => this);
+    }
+
+    /**
+     * Blocks this user, hiding their content and messages from the authenticated account.
+     * @example await sW.getUser('spez').block();
+     */
+    async block() {
+        return this._fetch('api/block_user', { method: 'POST', scope: 'account', form: { name: this.name } })
+            .then(() => this);
+    }
+
+    /**
+     * Unblocks this user.
+     * @example await sW.getUser('spez').unblock();
+     */
+    async unblock() {
+        const me = await this.snooWrapped.getMe();
+        return this._fetch('api/unfriend', { method: 'POST', scope: 'account', form: { name: this.name, type: 'enemy', container: addFullnamePrefix(me.id!, 't2_') } })
+            .then(() => this);
+    }
+
+    private _getHistory<T extends RedditContent>(where: string, { sort, time, ...options }: UserHistoryOptions) {
+        return new Listing<T>({ uri: `user/${this.name}/${where}`, query: { sort, t: time }, options, scope: 'history' }, this.snooWrapped);
+    }
+};
@@ -0,0 +1,147 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RawJsonResponse, RawThing } from "../types";
+import { Comment } from "./comment";
+import { RedditContent } from "./reddit-content";
+
+export type RawModerationData = {
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    ignore_reports?: boolean;
+    num_reports?: number | null;
+    mod_reports?: [string, string][];
+    user_reports?: [string, number][];
+};
+
+type RawThingsResponse = RawJsonResponse<{ things: RawThing[]; }>;
+
+export type Reports = {
+    count?: number;
+    /** Reports made by moderators as `[reason, moderator]` pairs. */
+    mod?: [string, string][];
+    /** Reports made by users as `[reason, count]` pairs. */
+    user?: [string, number][];
+};
+
+/**
+ * Maps the moderation fields that Comments and Submissions share.
+ */
+export const moderationDataFromRaw = (data: RawModerationData) => ({
+    approved: data.approved,
+    removed: data.removed,
+    spam: data.spam,
+    reportsIgnored: data.ignore_reports,
+    reports: {
+        count: data.num_reports ?? undefined,
+        mod: data.mod_reports,
+        user: data.user_reports
+    }
+});
+
+/**
+ * Content that can be replied to and moderated, i.e. Comments and Submissions.
+ */
+export class ReplyableContent<Data extends {
+    name: string;
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    reportsIgnored?: boolean;
+    reports?: Reports;
+} = {
+    name: string;
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    reportsIgnored?: boolean;
+    reports?: Reports;
+}> extends RedditContent<Data> {
+    public approved?: boolean;
+    public removed?: boolean;
+    public spam?: boolean;
+    public reportsIgnored?: boolean;
+    public reports: Reports;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.approved = data.approved;
+        this.removed = data.removed;
+        this.spam = data.spam;
+        this.reportsIgnored = data.reportsIgnored;
+        this.reports = {
+            count: data.reports?.count,
+            mod: data.reports?.mod,
+            user: data.reports?.user
+        };
+    }
+
+    /**
+     * Approves this item, re-adding it to public listings if it had been removed.
+     * @example await sW.getComment('c08pp5z').approve();
+     */
+    async approve() {
+        return this._fetch('api/approve', { method: 'POST', scope: 'modposts', query: { id: this.name } })
+            .then(() => this._withData({ approved: true, removed: false, spam: false } as Partial<Data>));
+    }
+
+    /**
+     * Removes this item from public listings.
+     * @param spam Whether to also mark this item as spam, which trains the spam filter.
+     * @example await sW.getComment('c08pp5z').remove({ spam: true });
+     */
+    async remove({ spam = false }: { spam?: boolean; } = {}) {
+        return this._fetch('api/remove', { method: 'POST', scope: 'modposts', query: { id: this.name, spam } })
+            .then(() => this._withData({ approved: false, removed: true, spam } as Partial<Data>));
+    }
+
+    /**
+     * Ignores future reports on this item, they'll no longer show up in the reports queue.
+     * @example await sW.getComment('c08pp5z').ignoreReports();
+     */
+    async ignoreReports() {
+        return this._fetch('api/ignore_reports', { method: 'POST', scope: 'modposts', query: { id: this.name } })
+            .then(() => this._withData({ reportsIgnored: true } as Partial<Data>));
+    }
+
+    /**
+     * Stops ignoring reports on this item.
+     * @example await sW.getComment('c08pp5z').unignoreReports();
+     */
+    async unignoreReports() {
+        return this._fetch('api/unignore_reports', { method: 'POST', scope: 'modposts', query: { id: this.name } })
+            .then(() => this._withData({ reportsIgnored: false } as Partial<Data>));
+    }
+
+    /**
+     * Posts a reply to this item.
+     * @param text The reply's content, in markdown.
+     * @example
+     *
+     * sW.getSubmission('4j8p6d').reply('This is a comment').then(comment => console.log(comment.name));
+     * // => 't1_d3i8xyz'
+     */
+    async reply(text: string) {
+        return this._fetch('api/comment', { method: 'POST', scope: 'submit', form: { api_type: 'json', thing_id: this.name, text } })
+            .then(({ json }: RawThingsResponse) => this.snooWrapped.createContent<Comment>(json.data.things[0]) as Comment);
+    }
+
+    /**
+     * Edits this item, this only works on content made by the authenticated account.
+     * @param text The new content, in markdown.
+     * @example await sW.getComment('c08pp5z').edit('Updated comment');
+     */
+    async edit(text: string) {
+        return this._fetch('api/editusertext', { method: 'POST', scope: 'edit', form: { api_type: 'json', thing_id: this.name, text } })
+            .then(({ json }: RawThingsResponse) => this.snooWrapped.createContent<this>(json.data.things[0]) as this);
+    }
+
+    /**
+     * Deletes this item, this only works on content made by the authenticated account.
+     * @example await sW.getComment('c08pp5z').delete();
+     */
+    async delete() {
+        return this._fetch('api/del', { method: 'POST', scope: 'edit', form: { id: this.name } })
+            .then(() => this);
+    }
+}
@@ -1,22 +1,30 @@
 import { SnooWrapped } from "../snoo-wrapped";
-import { SubredditType } from "../types";
-import { Comment, RawComment } from "./comment";
-import { RedditContent } from "./reddit-content";
+import { CommentSort, Flair, RawListing, RawThing, SubredditType } from "../types";
+import { expandCommentTree } from "../utils/expand-comment-tree";
+import { flairFromRaw } from "../utils/flair-from-raw";
+import { Comment, RawCommentData } from "./comment";
+import { MoreComments, RawMoreComments } from "./more-comments";
+import { moderationDataFromRaw, RawModerationData, Reports } from "./replyable-content";
+import { VoteableContent, Votes } from "./voteable-content";
 import { RedditUser } from "./reddit-user";
 import { Subreddit } from "./subreddit";
 
-interface RawSubmission {
+export interface RawSubmission extends RawModerationData {
     title: string;
     name: string;
     subreddit: string;
     author: string;
     ups: number;
     downs: number;
-    created: number;
-    edited: number;
+    score: number;
+    likes: boolean | null;
+    saved: boolean;
+    created_utc: number;
+    edited: number | false;
     gilded: number;
     subreddit_type: SubredditType;
     domain: string;
+    url: string;
     selftext: string;
     archived: boolean;
     over_18: boolean;
@@ -25,33 +33,51 @@ interface RawSubmission {
     permalink: string;
     stickied: boolean;
     subreddit_subscribers: number;
+    link_flair_text: string | null;
+    link_flair_css_class: string | null;
+    link_flair_template_id?: string | null;
+    author_flair_text: string | null;
+    author_flair_css_class: string | null;
+    author_flair_template_id?: string | null;
 };
 
-interface RawResult {
-    kind: 'Listing',
-    data: {
-        children: [{
-            kind: 't3',
-            data: RawSubmission;
-        }]
-    }
+type RawResult = RawListing<RawThing<'t3', RawSubmission>>;
+
+type RawFlairSelector = {
+    current: { flair_text: string | null; flair_css_class: string | null; flair_template_id: string | null; };
+    choices: { flair_text: string; flair_css_class: string; flair_template_id: string; flair_text_editable: boolean; }[];
 };
 
+export type FlairOptions = {
+    /** The flair this Submission has now. */
+    current?: Flair;
+    /** The flairs the authenticated account may pick for this Submission. */
+    choices: { templateId: string; text: string; cssClass: string; textEditable: boolean; }[];
+};
+
+type RawCommentListing = RawListing<RawThing<'t1', RawCommentData> | RawThing<'more', RawMoreComments>>;
+
 export class Submission<Data extends {
     name: string;
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    reportsIgnored?: boolean;
+    reports?: Reports;
     subreddit?: Subreddit;
     comments?: Comment[];
+    moreComments?: MoreComments;
+    commentSort?: CommentSort;
     title?: string;
     author?: RedditUser;
-    votes?: {
-        up?: number;
-        down?: number;
-    };
+    votes?: Votes;
+    saved?: boolean;
     created?: Date;
     edited?: Date;
     gilded?: number;
     subredditType?: SubredditType;
     domain?: string;
+    url?: string;
     body?: string;
     archived?: boolean;
     nsfw?: boolean;
@@ -60,21 +86,28 @@ export class Submission<Data extends {
     permalink?: string;
     stickied?: boolean;
     subscribers?: number;
+    flair?: Flair;
 } = {
     name: string;
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    reportsIgnored?: boolean;
+    reports?: Reports;
     subreddit?: Subreddit;
     comments?: Comment[];
+    moreComments?: MoreComments;
+    commentSort?: CommentSort;
     title?: string;
     author?: RedditUser;
-    votes?: {
-        up?: number;
-        down?: number;
-    };
+    votes?: Votes;
+    saved?: boolean;
     created?: Date;
     edited?: Date;
     gilded?: number;
     subredditType?: SubredditType;
     domain?: string;
+    url?: string;
     body?: string;
     archived?: boolean;
     nsfw?: boolean;
@@ -83,17 +116,20 @@ export class Submission<Data extends {
     permalink?: string;
     stickied?: boolean;
     subscribers?: number;
-}> extends RedditContent<Data> {
+    flair?: Flair;
+}> extends VoteableContent<Data> {
     public subreddit?: Subreddit;
     public comments?: Comment[];
+    public moreComments?: MoreComments;
+    public commentSort?: CommentSort;
     public title?: string;
     public author?: RedditUser;
-    public votes: { up?: number; down?: number; };
     public created?: Date;
     public edited?: Date;
     public gilded?: number;
     public subredditType?: string;
     public domain?: string;
+    public url?: string;
     public body?: string;
     public archived?: boolean;
     public nsfw?: boolean;
@@ -102,22 +138,22 @@ export class Submission<Data extends {
     public permalink?: string;
     public stickied?: boolean;
     public subscribers?: number;
+    public flair?: Flair;
     
     constructor(data: Data, snooWrapped: SnooWrapped) {
         super(data, snooWrapped);
         this.subreddit = data.subreddit;
         this.comments = data.comments;
+        this.moreComments = data.moreComments;
+        this.commentSort = data.commentSort;
         this.title = data.title;
         this.author = data.author;
-        this.votes = {
-            up: data.votes?.up,
-            down: data.votes?.down,
-        };
         this.created = data.created;
         this.edited = data.edited;
         this.gilded = data.gilded;
         this.subredditType = data.subredditType;
         this.domain = data.domain;
+        this.url = data.url;
         this.body = data.body;
         this.archived = data.archived;
         this.nsfw = data.nsfw;
@@ -126,54 +162,107 @@ export class Submission<Data extends {
         this.permalink = data.permalink;
         this.stickied = data.stickied;
         this.subscribers = data.subscribers;
+        this.flair = data.flair;
     }
 
     protected get uri() {
         return `api/info/?id=${this.name}`;
     }
 
-    protected async _populate(data: RawResult) {
-        const submissionData = (data as RawResult).data.children[0].data;
-        const comments = await this._fetch(`r/${submissionData.subreddit}/comments/article`, {
-                query: {
-                    limit: 1000,
-                    showmore: true,
-                    article: submissionData.name.substring(3)
-                }
-            })
-            .then(([, comments]: [RawSubmission, RawComment]) => comments.data.children.map(child => child.data));
+    protected get cachedUris() {
+        return [this.uri, `comments/${this.name.substring(3)}`];
+    }
 
+    /**
+     * Creates a Submission from the raw `t3` data Reddit returns.
+     */
+    static fromRaw(submissionData: RawSubmission, snooWrapped: SnooWrapped) {
         return new Submission({
-            ...this.data,
-            author: new RedditUser({ name: submissionData.author }, this.snooWrapped),
-            subreddit: new Subreddit({ name: submissionData.subreddit, subscribers: submissionData.subreddit_subscribers }, this.snooWrapped),
+            name: submissionData.name,
+            author: new RedditUser({
+                name: submissionData.author,
+                flair: flairFromRaw(submissionData.author_flair_text, submissionData.author_flair_css_class, submissionData.author_flair_template_id)
+            }, snooWrapped),
+            subreddit: new Subreddit({ name: submissionData.subreddit, subscribers: submissionData.subreddit_subscribers }, snooWrapped),
             title: submissionData.title,
             votes: {
                 up: submissionData.ups,
-                down: submissionData.downs
+                down: submissionData.downs,
+                score: submissionData.score,
+                likes: submissionData.likes
             },
-            created: new Date(submissionData.created),
-            edited: new Date(submissionData.edited),
+            saved: submissionData.saved,
+            created: new Date(submissionData.created_utc * 1000),
+            edited: submissionData.edited === false ? undefined : new Date(submissionData.edited * 1000),
             gilded: submissionData.gilded,
             subredditType: submissionData.subreddit_type,
             domain: submissionData.domain,
+            url: submissionData.url,
             body: submissionData.selftext,
             archived: submissionData.archived,
             nsfw: submissionData.over_18,
-            comments: comments.map(comment => new Comment({ name: comment.name }, this.snooWrapped)),
             spoiler: submissionData.spoiler,
             hidden: submissionData.hidden,
             permalink: submissionData.permalink,
             stickied: submissionData.stickied,
+            flair: flairFromRaw(submissionData.link_flair_text, submissionData.link_flair_css_class, submissionData.link_flair_template_id),
+            ...moderationDataFromRaw(submissionData),
+        }, snooWrapped);
+    }
+
+    protected async _populate(data: RawResult) {
+        const [child] = (data as RawResult).data.children;
+        if (!child) return;
+
+        const submissionData = child.data;
+        const sort = this.data.commentSort;
+        const comments = await this._fetch(`comments/${submissionData.name.substring(3)}`, {
+                scope: 'read',
+                cache: true,
+                query: {
+                    limit: 1000,
+                    showmore: true,
+                    sort
+                }
+            })
+            .then(([, comments]: [RawResult, RawCommentListing]) => comments.data.children);
+        const more = comments.find(comment => comment.kind === 'more');
+
+        return new Submission({
+            ...this.data,
+            ...Submission.fromRaw(submissionData, this.snooWrapped).data,
+            comments: comments
+                .filter((comment): comment is RawThing<'t1', RawCommentData> => comment.kind === 't1')
+                .map(comment => Comment.fromRaw(comment.data, this.snooWrapped, sort)),
+            moreComments: more ? MoreComments.fromRaw(more.data as RawMoreComments, submissionData.name, sort, this.snooWrapped) : undefined
         }, this.snooWrapped);
     }
 
+    /**
+     * Fetches the comments hidden behind "load more comments" placeholders on this Submission.
+     * Fetches the Submission first if its comments haven't been loaded yet.
+     * @param depth How many levels of replies to expand.
+     * @param limit The most placeholders to expand, each one costs a request.
+     * @param sort The order to sort the comments in.
+     * @example
+     *
+     * sW.getSubmission('4j8p6d').expandReplies({ limit: Infinity, depth: Infinity }).then(console.log);
+     */
+    async expandReplies({ depth = Infinity, limit = Infinity, sort }: { depth?: number; limit?: number; sort?: CommentSort; } = {}) {
+        const submission = this.comments && (!sort || sort === this.commentSort)
+            ? this
+            : await new Submission({ ...this.data, commentSort: sort ?? this.commentSort }, this.snooWrapped).fetch<Submission>();
+        const { comments, more } = await expandCommentTree(submission.comments ?? [], submission.moreComments, depth, { remaining: limit });
+
+        return new Submission({ ...submission.data, comments, moreComments: more }, this.snooWrapped);
+    }
+
     /**
      * Marks this Submission as NSFW (Not Safe For Work).
      * @example await sW.getSubmission('2np694').markNsfw();
      */
     async markNsfw () {
-        return this._fetch('api/marknsfw', { method: 'POST', query: { id: this.name } })
+        return this._fetch('api/marknsfw', { method: 'POST', scope: 'modposts', query: { id: this.name } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -187,7 +276,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').unmarkNsfw();
      */
      async unmarkNsfw () {
-        return this._fetch('api/unmarknsfw', { method: 'POST', query: { id: this.name } })
+        return this._fetch('api/unmarknsfw', { method: 'POST', scope: 'modposts', query: { id: this.name } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -201,7 +290,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').lock();
      */
     async lock () {
-        return this._fetch('api/lock', { method: 'POST', query: { id: this.name } })
+        return this._fetch('api/lock', { method: 'POST', scope: 'modposts', query: { id: this.name } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -215,7 +304,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').unlock();
      */
     async unlock () {
-        return this._fetch('api/unlock', { method: 'POST', query: { id: this.name } })
+        return this._fetch('api/unlock', { method: 'POST', scope: 'modposts', query: { id: this.name } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -229,7 +318,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').hide();
      */
     async hide () {
-        return this._fetch('api/hide', { method: 'POST', query: { id: this.name } })
+        return this._fetch('api/hide', { method: 'POST', scope: 'report', query: { id: this.name } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -243,7 +332,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').unhide();
      */
     async unhide () {
-        return this._fetch('api/unhide', { method: 'POST', query: { id: this.name } })
+        return this._fetch('api/unhide', { method: 'POST', scope: 'report', query: { id: this.name } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -258,7 +347,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').markSpoiler();
      */
     async markSpoiler () {
-        return this._fetch('api/spoiler', { method: 'POST', query: { id: this.name } })
+        return this._fetch('api/spoiler', { method: 'POST', scope: 'modposts', query: { id: this.name } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -272,7 +361,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').unmarkSpoiler();
      */
     async unmarkSpoiler () {
-        return this._fetch('api/unspoiler', { method: 'POST', query: { id: this.name } })
+        return this._fetch('api/unspoiler', { method: 'POST', scope: 'modposts', query: { id: this.name } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -287,7 +376,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').sticky(2);
      */
     async sticky (slot = 1 | 2) {
-        return this._fetch('api/set_subreddit_sticky', { query: { id: this.name, num: slot } })
+        return this._fetch('api/set_subreddit_sticky', { method: 'POST', scope: 'modposts', query: { id: this.name, num: slot } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -301,7 +390,7 @@ export class Submission<Data extends {
      * @example await sW.getSubmission('2np694').unsticky();
      */
     async unsticky () {
-        return this._fetch('api/set_subreddit_sticky', { query: { id: this.name, state: false } })
+        return this._fetch('api/set_subreddit_sticky', { method: 'POST', scope: 'modposts', query: { id: this.name, state: false } })
             .then(data => {
                 return new Submission({
                     ...this.data,
@@ -309,4 +398,35 @@ export class Submission<Data extends {
                 }, this.snooWrapped);
             });
     }
+
+    /**
+     * Gets the flair this Submission has and the ones that can be picked for it.
+     * @example
+     *
+     * sW.getSubmission('2np694').getFlairOptions().then(options => console.log(options.choices[0].text));
+     * // => 'Discussion'
+     */
+    async getFlairOptions(): Promise<FlairOptions> {
+        return this._fetch('api/flairselector', { method: 'POST', scope: 'flair', form: { link: this.name } })
+            .then(({ current, choices }: RawFlairSelector) => ({
+                current: flairFromRaw(current.flair_text, current.flair_css_class, current.flair_template_id),
+                choices: choices.map(choice => ({
+                    templateId: choice.flair_template_id,
+                    text: choice.flair_text,
+                    cssClass: choice.flair_css_class,
+                    textEditable: choice.flair_text_editable
+                }))
+            }));
+    }
+
+    /**
+     * Sets this Submission's flair to one of the subreddit's templates.
+     * @param templateId The template's id, see `getFlairOptions()`.
+     * @param text Replaces the template's text, this only works if the template's text is editable.
+     * @example await sW.getSubmission('2np694').selectFlair({ templateId: 'fdafe2c2-bc5c-11e6-b3e6-0e5a1b1b6f39' });
+     */
+    async selectFlair({ templateId, text }: { templateId: string; text?: string; }) {
+        return this._fetch('api/selectflair', { method: 'POST', scope: 'flair', form: { api_type: 'json', link: this.name, flair_template_id: templateId, text } })
+            .then(() => new Submission({ ...this.data, flair: { templateId, text } }, this.snooWrapped));
+    }
 }
@@ -0,0 +1,67 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { ModeratorPermission } from "../types";
+import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+
+export interface RawSubredditRelationship {
+    name: string;
+    id: string;
+    rel_id?: string;
+    date: number;
+    note?: string;
+    days_left?: number | null;
+    mod_permissions?: (ModeratorPermission | 'all')[];
+};
+
+/**
+ * A user's place on one of a Subreddit's user lists, e.g. its banned users or moderators.
+ */
+export class SubredditRelationship<Data extends {
+    name: string;
+    user: RedditUser;
+    added?: Date;
+    note?: string;
+    daysLeft?: number;
+    permissions?: (ModeratorPermission | 'all')[];
+} = {
+    name: string;
+    user: RedditUser;
+    added?: Date;
+    note?: string;
+    daysLeft?: number;
+    permissions?: (ModeratorPermission | 'all')[];
+}> extends RedditContent<Data> {
+    public user: RedditUser;
+    /** When the user was added to the list. */
+    public added?: Date;
+    /** The moderator's note, for bans this is the ban reason. */
+    public note?: string;
+    /** How many days a temporary ban has left, `undefined` for permanent ones. */
+    public daysLeft?: number;
+    /** A moderator's permissions. */
+    public permissions?: (ModeratorPermission | 'all')[];
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.user = data.user;
+        this.added = data.added;
+        this.note = data.note;
+        this.daysLeft = data.daysLeft;
+        this.permissions = data.permissions;
+    }
+
+    /**
+     * Creates a SubredditRelationship from one of the entries on a Subreddit's user lists.
+     */
+    static fromRaw(relationshipData: RawSubredditRelationship, snooWrapped: SnooWrapped) {
+        return new SubredditRelationship({
+            name: relationshipData.rel_id ?? relationshipData.id,
+            user: new RedditUser({ name: relationshipData.name, id: relationshipData.id.replace(/^t2_/, '') }, snooWrapped),
+            added: new Date(relationshipData.date * 1000),
+            note: relationshipData.note || undefined,
+            daysLeft: relationshipData.days_left ?? undefined,
+            permissions: relationshipData.mod_permissions
+        }, snooWrapped);
+    }
+}
@@ -1,18 +1,781 @@
 import { SnooWrapped } from "../snoo-wrapped";
+import { FlairTemplate, ModeratorPermission, ModLogAction, OAuthScope, RawJsonResponse, RawThing, SearchOptions, SpamLevels, SubredditType, TimeFilter } from "../types";
+import { addFullnamePrefix } from "../utils/add-fullname-prefix";
+import { formatPermissions } from "../utils/format-permissions";
+import { Comment } from "./comment";
+import { Listing, ListingOptions } from "./listing";
+import { ModAction } from "./mod-action";
 import { RedditContent } from "./reddit-content";
+import { RedditUser } from "./reddit-user";
+import { Submission } from "./submission";
+import { RawSubredditRelationship, SubredditRelationship } from "./subreddit-relationship";
+import { WikiPage } from "./wiki-page";
+
+type MissingEndpoint = { message: 'Not Found'; error: number; };
+
+export interface RawSubreddit {
+    display_name: string;
+    name: string;
+    id: string;
+    title: string;
+    subscribers: number;
+    active_user_count: number;
+    subreddit_type: SubredditType;
+    description: string;
+    public_description: string;
+    over18: boolean;
+    created_utc: number;
+    url: string;
+};
+
+interface RawRule {
+    kind: 'link' | 'comment' | 'all';
+    short_name: string;
+    description: string;
+    violation_reason: string;
+    created_utc: number;
+    priority: number;
+};
+
+interface RawSettings {
+    title: string;
+    description: string;
+    public_description: string;
+    subreddit_type: SubredditType;
+    over_18: boolean;
+    language: string;
+    spam_links: SpamLevels;
+    spam_selfposts: SpamLevels;
+    spam_comments: SpamLevels;
+    allow_images: boolean;
+    allow_videos: boolean;
+    spoilers_enabled: boolean;
+    wikimode: 'disabled' | 'modonly' | 'anyone';
+};
+
+export type SubredditRule = {
+    kind: 'link' | 'comment' | 'all';
+    shortName: string;
+    description: string;
+    violationReason: string;
+    created: Date;
+    priority: number;
+};
+
+export type SubredditSettings = {
+    title: string;
+    description: string;
+    publicDescription: string;
+    type: SubredditType;
+    nsfw: boolean;
+    language: string;
+    spamLevels: { links: SpamLevels; selfposts: SpamLevels; comments: SpamLevels; };
+    allowImages: boolean;
+    allowVideos: boolean;
+    spoilersEnabled: boolean;
+    wikiMode: 'disabled' | 'modonly' | 'anyone';
+};
+
+interface RawFlairTemplate {
+    id: string;
+    text: string;
+    text_editable: boolean;
+    css_class: string;
+    background_color: string;
+    text_color: 'light' | 'dark';
+    mod_only: boolean;
+};
+
+interface RawFlairCsvResult {
+    ok: boolean;
+    status: string;
+    errors: Record<string, string>;
+    warnings: Record<string, string>;
+};
+
+export type UserFlair = {
+    user: string | RedditUser;
+    text?: string;
+    cssClass?: string;
+};
+
+export type FlairCsvResult = {
+    user: string;
+    ok: boolean;
+    status: string;
+    errors: Record<string, string>;
+    warnings: Record<string, string>;
+};
+
+const flairTemplateFromRaw = (template: RawFlairTemplate): FlairTemplate => ({
+    id: template.id,
+    text: template.text,
+    textEditable: template.text_editable,
+    cssClass: template.css_class,
+    backgroundColor: template.background_color,
+    textColor: template.text_color,
+    modOnly: template.mod_only
+});
+
+/**
+ * Quotes a field for Reddit's flair CSV, doubling any quotes inside it.
+ */
+const csvField = (value = '') => `"${value.replace(/"/g, '""')}"`;
+
+type UserListType = 'banned' | 'muted' | 'contributor' | 'moderator' | 'moderator_invite';
+
+type RawSubmitResponse = RawJsonResponse<{ id: string; name: string; url: string; }>;
+
+type SubmitOptions = {
+    title: string;
+    /** Whether replies should be sent to the author's inbox, defaults to `true`. */
+    sendReplies?: boolean;
+    nsfw?: boolean;
+    spoiler?: boolean;
+    flairId?: string;
+    flairText?: string;
+};
+
+export type ModerationListingOptions = ListingOptions & {
+    /** Only include Submissions (`links`) or Comments (`comments`). */
+    only?: 'links' | 'comments';
+};
 
 export class Subreddit<Data extends {
     name: string;
+    id?: string;
+    title?: string;
     subscribers?: number;
+    activeUsers?: number;
+    type?: SubredditType;
+    description?: string;
+    publicDescription?: string;
+    nsfw?: boolean;
+    created?: Date;
 } = {
     name: string;
+    id?: string;
+    title?: string;
     subscribers?: number;
+    activeUsers?: number;
+    type?: SubredditType;
+    description?: string;
+    publicDescription?: string;
+    nsfw?: boolean;
+    created?: Date;
 }> extends RedditContent<Data> {
+    public id?: string;
+    public title?: string;
     public subscribers?: number;
+    public activeUsers?: number;
+    public type?: SubredditType;
+    public description?: string;
+    public publicDescription?: string;
+    public nsfw?: boolean;
+    public created?: Date;
 
     constructor(data: Data, snooWrapped: SnooWrapped) {
         super(data, snooWrapped);
 
+        this.id = data.id;
+        this.title = data.title;
         this.subscribers = data.subscribers;
+        this.activeUsers = data.activeUsers;
+        this.type = data.type;
+        this.description = data.description;
+        this.publicDescription = data.publicDescription;
+        this.nsfw = data.nsfw;
+        this.created = data.created;
+    }
+
+    /**
+     * Creates a Subreddit from the raw `t5` data Reddit returns.
+     */
+    static fromRaw(subredditData: RawSubreddit, snooWrapped: SnooWrapped) {
+        return new Subreddit({
+            name: subredditData.display_name,
+            id: subredditData.id,
+            title: subredditData.title,
+            subscribers: subredditData.subscribers,
+            activeUsers: subredditData.active_user_count,
+            type: subredditData.subreddit_type,
+            description: subredditData.description,
+            publicDescription: subredditData.public_description,
+            nsfw: subredditData.over18,
+            created: subredditData.created_utc === undefined ? undefined : new Date(subredditData.created_utc * 1000)
+        }, snooWrapped);
+    }
+
+    protected _populate(data: MissingEndpoint | RawThing<'t5', RawSubreddit>) {
+        if ('error' in data && data.error === 404) return;
+        if ('kind' in data && data.kind !== 't5') return;
+
+        return Subreddit.fromRaw((data as RawThing<'t5', RawSubreddit>).data, this.snooWrapped);
+    }
+
+    protected get uri() {
+        return `r/${this.name}/about`;
+    }
+
+    /**
+     * Gets the rules of this Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('AskReddit').getRules().then(rules => console.log(rules[0].shortName));
+     * // => 'Rule 1 - Questions must be clear and direct and may not use the body textbox'
+     */
+    async getRules(): Promise<SubredditRule[]> {
+        return this._fetch(`r/${this.name}/about/rules`, { scope: 'read' })
+            .then(({ rules }: { rules: RawRule[]; }) => rules.map(rule => ({
+                kind: rule.kind,
+                shortName: rule.short_name,
+                description: rule.description,
+                violationReason: rule.violation_reason,
+                created: new Date(rule.created_utc * 1000),
+                priority: rule.priority
+            })));
+    }
+
+    /**
+     * Gets the moderator settings of this Subreddit.
+     * **Note:** This requires the authenticated account to be a moderator of this Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getSettings().then(settings => console.log(settings.spamLevels.links));
+     * // => 'high'
+     */
+    async getSettings(): Promise<SubredditSettings> {
+        return this._fetch(`r/${this.name}/about/edit`, { scope: 'modconfig' })
+            .then(({ data }: RawThing<'subreddit_settings', RawSettings>) => ({
+                title: data.title,
+                description: data.description,
+                publicDescription: data.public_description,
+                type: data.subreddit_type,
+                nsfw: data.over_18,
+                language: data.language,
+                spamLevels: {
+                    links: data.spam_links,
+                    selfposts: data.spam_selfposts,
+                    comments: data.spam_comments
+                },
+                allowImages: data.allow_images,
+                allowVideos: data.allow_videos,
+                spoilersEnabled: data.spoilers_enabled,
+                wikiMode: data.wikimode
+            }));
+    }
+
+    /**
+     * Gets the "hot" Submissions on this Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('AskReddit').getHot({ limit: 10 }).fetch();
+     */
+    getHot(options: ListingOptions = {}) {
+        return new Listing<Submission>({ uri: `r/${this.name}/hot`, options }, this.snooWrapped);
+    }
+
+    /**
+     * Gets the newest Submissions on this Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('AskReddit').getNew().fetch();
+     */
+    getNew(options: ListingOptions = {}) {
+        return new Listing<Submission>({ uri: `r/${this.name}/new`, options }, this.snooWrapped);
+    }
+
+    /**
+     * Gets the "rising" Submissions on this Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('AskReddit').getRising().fetch();
+     */
+    getRising(options: ListingOptions = {}) {
+        return new Listing<Submission>({ uri: `r/${this.name}/rising`, options }, this.snooWrapped);
+    }
+
+    /**
+     * Gets the top Submissions on this Subreddit.
+     * @param time The period to get the top Submissions of, defaults to `day`.
+     * @example
+     *
+     * sW.getSubreddit('AskReddit').getTop({ time: 'week' }).fetch();
+     */
+    getTop({ time, ...options }: ListingOptions & { time?: TimeFilter; } = {}) {
+        return new Listing<Submission>({ uri: `r/${this.name}/top`, query: { t: time }, options }, this.snooWrapped);
+    }
+
+    /**
+     * Gets the most controversial Submissions on this Subreddit.
+     * @param time The period to get the controversial Submissions of, defaults to `day`.
+     * @example
+     *
+     * sW.getSubreddit('AskReddit').getControversial({ time: 'all' }).fetch();
+     */
+    getControversial({ time, ...options }: ListingOptions & { time?: TimeFilter; } = {}) {
+        return new Listing<Submission>({ uri: `r/${this.name}/controversial`, query: { t: time }, options }, this.snooWrapped);
+    }
+
+    /**
+     * Searches the Submissions in this subreddit.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap').search({ query: 'token', sort: 'new' }).fetch();
+     */
+    search({ query, sort, time, syntax, ...options }: ListingOptions & SearchOptions) {
+        return new Listing<Submission>({
+            uri: `r/${this.name}/search`,
+            query: { q: query, restrict_sr: true, sort, t: time, syntax, type: 'link' },
+            options
+        }, this.snooWrapped);
+    }
+
+    /**
+     * Gets the items on this Subreddit that are waiting for a moderator to review them.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getModqueue({ only: 'links' }).fetch();
+     */
+    getModqueue(options: ModerationListingOptions = {}) {
+        return this._getModerationListing('modqueue', options);
+    }
+
+    /**
+     * Gets the items on this Subreddit that have been reported.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getReports().fetch();
+     */
+    getReports(options: ModerationListingOptions = {}) {
+        return this._getModerationListing('reports', options);
+    }
+
+    /**
+     * Gets the items on this Subreddit that have been marked as spam.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getSpam().fetch();
+     */
+    getSpam(options: ModerationListingOptions = {}) {
+        return this._getModerationListing('spam', options);
+    }
+
+    /**
+     * Gets the items on this Subreddit that have been edited recently.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getEdited({ only: 'comments' }).fetch();
+     */
+    getEdited(options: ModerationListingOptions = {}) {
+        return this._getModerationListing('edited', options);
+    }
+
+    /**
+     * Gets the items on this Subreddit that haven't been approved or removed by a moderator yet.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getUnmoderated().fetch();
+     */
+    getUnmoderated(options: ModerationListingOptions = {}) {
+        return this._getModerationListing('unmoderated', options);
+    }
+
+    /**
+     * Gets the moderation log of this Subreddit.
+     * @param mods Only include actions taken by these moderators.
+     * @param type Only include actions of this type.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getModerationLog({ mods: ['OmgImAlexis'], type: 'banuser' }).fetch();
+     */
+    getModerationLog({ mods, type, ...options }: ListingOptions & { mods?: (string | RedditUser)[]; type?: ModLogAction; } = {}) {
+        return new Listing<ModAction>({
+            uri: `r/${this.name}/about/log`,
+            query: {
+                mod: mods?.map(mod => typeof mod === 'string' ? mod : mod.name).join(','),
+                type
+            },
+            options,
+            scope: 'modlog'
+        }, this.snooWrapped);
+    }
+
+    /**
+     * Submits a text post to this Subreddit.
+     * @param text The body of the post, in markdown.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').submitSelfpost({ title: 'Daily thread', text: 'Discuss things here' });
+     * // => Submission { name: 't3_4abmt8' }
+     */
+    async submitSelfpost({ text, ...options }: SubmitOptions & { text?: string; }) {
+        return this._submit('self', { text }, options)
+            .then(submission => new Submission({ ...submission, body: text }, this.snooWrapped));
+    }
+
+    /**
+     * Submits a link to this Subreddit.
+     * @param url The URL to link to.
+     * @param resubmit Whether to post the link even if it's been submitted to this Subreddit before, defaults to `true`.
+     * @example
+     *
+     * sW.getSubreddit('gifs').submitLink({ title: 'Mt. Cameramanjaro', url: 'https://i.imgur.com/n5iOc72.gifv' });
+     * // => Submission { name: 't3_4abn9a' }
+     */
+    async submitLink({ url, resubmit = true, ...options }: SubmitOptions & { url: string; resubmit?: boolean; }) {
+        return this._submit('link', { url, resubmit }, options)
+            .then(submission => new Submission({ ...submission, url }, this.snooWrapped));
+    }
+
+    /**
+     * Crossposts an existing Submission to this Subreddit.
+     * @param originalPost The Submission to crosspost, or its ID.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').submitCrosspost({ title: 'Look at this', originalPost: '6vths0' });
+     * // => Submission { name: 't3_4abnfe' }
+     */
+    async submitCrosspost({ originalPost, resubmit = true, ...options }: SubmitOptions & { originalPost: string | Submission; resubmit?: boolean; }) {
+        return this._submit('crosspost', { crosspost_fullname: addFullnamePrefix(originalPost, 't3_'), resubmit }, options)
+            .then(submission => new Submission(submission, this.snooWrapped));
+    }
+
+    /**
+     * Gets the flair templates users can pick from on this Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getUserFlairTemplates().then(templates => console.log(templates[0].text));
+     * // => 'Contributor'
+     */
+    async getUserFlairTemplates(): Promise<FlairTemplate[]> {
+        return this._fetch(`r/${this.name}/api/user_flair_v2`, { scope: 'flair' })
+            .then((templates: RawFlairTemplate[]) => templates.map(flairTemplateFromRaw));
+    }
+
+    /**
+     * Gets the flair templates Submissions on this Subreddit can be given.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getLinkFlairTemplates().then(templates => console.log(templates[0].text));
+     * // => 'Discussion'
+     */
+    async getLinkFlairTemplates(): Promise<FlairTemplate[]> {
+        return this._fetch(`r/${this.name}/api/link_flair_v2`, { scope: 'flair' })
+            .then((templates: RawFlairTemplate[]) => templates.map(flairTemplateFromRaw));
+    }
+
+    /**
+     * Creates a user or link flair template on this Subreddit.
+     * @param type Whether the template is for users or Submissions, defaults to `user`.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').createFlairTemplate({ type: 'link', text: 'Discussion', backgroundColor: '#0079d3', textColor: 'light' });
+     */
+    async createFlairTemplate({ type = 'user', text, cssClass, textEditable = false, backgroundColor, textColor, modOnly = false }: {
+        type?: 'user' | 'link';
+        text: string;
+        cssClass?: string;
+        textEditable?: boolean;
+        backgroundColor?: string;
+        textColor?: 'light' | 'dark';
+        modOnly?: boolean;
+    }): Promise<FlairTemplate> {
+        return this._fetch(`r/${this.name}/api/flairtemplate_v2`, {
+            method: 'POST',
+            scope: 'modflair',
+            form: {
+                api_type: 'json',
+                flair_type: type === 'link' ? 'LINK_FLAIR' : 'USER_FLAIR',
+                text,
+                css_class: cssClass,
+                text_editable: textEditable,
+                background_color: backgroundColor,
+                text_color: textColor,
+                mod_only: modOnly
+            }
+        }).then(flairTemplateFromRaw);
+    }
+
+    /**
+     * Deletes a flair template from this Subreddit.
+     * @example await sW.getSubreddit('snoowrap_testing').deleteFlairTemplate('fdafe2c2-bc5c-11e6-b3e6-0e5a1b1b6f39');
+     */
+    async deleteFlairTemplate(templateId: string) {
+        return this._fetch(`r/${this.name}/api/deleteflairtemplate`, { method: 'POST', scope: 'modflair', form: { api_type: 'json', flair_template_id: templateId } })
+            .then(() => this);
+    }
+
+    /**
+     * Sets a user's flair on this Subreddit, either from a template or with custom text.
+     * @example await sW.getSubreddit('snoowrap_testing').setUserFlair({ user: 'OmgImAlexis', text: 'Maintainer' });
+     */
+    async setUserFlair({ user, text, cssClass, templateId }: UserFlair & { templateId?: string; }) {
+        return this._fetch(`r/${this.name}/api/selectflair`, {
+            method: 'POST',
+            scope: 'flair',
+            form: {
+                api_type: 'json',
+                name: typeof user === 'string' ? user : user.name,
+                text,
+                css_class: cssClass,
+                flair_template_id: templateId
+            }
+        }).then(() => this);
+    }
+
+    /**
+     * Sets the flair of many users at once, Reddit only accepts 100 per request so they're sent in chunks.
+     * Resolves with a result for each user, Reddit doesn't fail the whole request if some of them are invalid.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').setMultipleUserFlairs([
+     *   { user: 'OmgImAlexis', text: 'Maintainer' },
+     *   { user: 'not_an_aardvark', text: 'Original author', cssClass: 'gold' }
+     * ]);
+     */
+    async setMultipleUserFlairs(flairs: UserFlair[]): Promise<FlairCsvResult[]> {
+        const users = flairs.map(({ user }) => typeof user === 'string' ? user : user.name);
+        const lines = flairs.map(({ text, cssClass }, index) => [users[index], text, cssClass].map(csvField).join(','));
+        const chunks: string[][] = [];
+        for (let index = 0; index < lines.length; index += 100) {
+            chunks.push(lines.slice(index, index + 100));
+        }
+
+        let results: RawFlairCsvResult[] = [];
+        for (const chunk of chunks) {
+            const chunkResults: RawFlairCsvResult[] = await this._fetch(`r/${this.name}/api/flaircsv`, {
+                method: 'POST',
+                scope: 'modflair',
+                form: { flair_csv: chunk.join('\n') }
+            });
+            results = results.concat(chunkResults);
+        }
+
+        return results.map((result, index) => ({
+            user: users[index],
+            ok: result.ok,
+            status: result.status,
+            errors: result.errors,
+            warnings: result.warnings
+        }));
+    }
+
+    /**
+     * Gets a page on this Subreddit's wiki, call `fetch()` on it to load its content.
+     * @param name The page's name, e.g. `index` or `config/automoderator`.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getWikiPage('bot-config').fetch().then(page => console.log(page.content));
+     */
+    getWikiPage(name: string) {
+        return new WikiPage({ name, subreddit: this }, this.snooWrapped);
+    }
+
+    /**
+     * Gets every page on this Subreddit's wiki.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getWikiPages().then(pages => console.log(pages.map(page => page.name)));
+     * // => ['config/automoderator', 'index']
+     */
+    async getWikiPages() {
+        return this._fetch(`r/${this.name}/wiki/pages`, { scope: 'wikiread' })
+            .then(({ data }: RawThing<'wikipagelisting', string[]>) => data.map(name => this.getWikiPage(name)));
+    }
+
+    /**
+     * Bans a user from this Subreddit.
+     * @param duration How many days the ban lasts, leave it out for a permanent ban.
+     * @param banReason The reason shown to moderators, Reddit allows at most 100 characters.
+     * @param banMessage The message sent to the user.
+     * @example await sW.getSubreddit('snoowrap_testing').banUser({ name: 'spez', duration: 3, banReason: 'Spam' });
+     */
+    async banUser({ name, duration, banReason, banMessage, note }: { name: string | RedditUser; duration?: number; banReason?: string; banMessage?: string; note?: string; }) {
+        return this._friend('banned', name, { duration, ban_reason: banReason, ban_message: banMessage, note });
+    }
+
+    /**
+     * Unbans a user from this Subreddit.
+     * @example await sW.getSubreddit('snoowrap_testing').unbanUser('spez');
+     */
+    async unbanUser(name: string | RedditUser) {
+        return this._unfriend('banned', name);
+    }
+
+    /**
+     * Mutes a user, stopping them from messaging this Subreddit's moderators for 72 hours.
+     * @example await sW.getSubreddit('snoowrap_testing').muteUser({ name: 'spez' });
+     */
+    async muteUser({ name, note }: { name: string | RedditUser; note?: string; }) {
+        return this._friend('muted', name, { note });
+    }
+
+    /**
+     * Unmutes a user.
+     * @example await sW.getSubreddit('snoowrap_testing').unmuteUser('spez');
+     */
+    async unmuteUser(name: string | RedditUser) {
+        return this._unfriend('muted', name);
+    }
+
+    /**
+     * Adds a user to this Subreddit's approved submitters, letting them post even if it's restricted or private.
+     * @example await sW.getSubreddit('snoowrap_testing').addContributor('spez');
+     */
+    async addContributor(name: string | RedditUser) {
+        return this._friend('contributor', name);
+    }
+
+    /**
+     * Removes a user from this Subreddit's approved submitters.
+     * @example await sW.getSubreddit('snoowrap_testing').removeContributor('spez');
+     */
+    async removeContributor(name: string | RedditUser) {
+        return this._unfriend('contributor', name);
+    }
+
+    /**
+     * Invites a user to moderate this Subreddit.
+     * @param permissions What the user may do once they accept, defaults to everything.
+     * @example await sW.getSubreddit('snoowrap_testing').inviteModerator({ name: 'spez', permissions: ['posts', 'wiki'] });
+     */
+    async inviteModerator({ name, permissions }: { name: string | RedditUser; permissions?: ModeratorPermission[]; }) {
+        return this._friend('moderator_invite', name, { permissions: formatPermissions(permissions) });
+    }
+
+    /**
+     * Revokes a pending moderator invite.
+     * @example await sW.getSubreddit('snoowrap_testing').revokeModeratorInvite('spez');
+     */
+    async revokeModeratorInvite(name: string | RedditUser) {
+        return this._unfriend('moderator_invite', name);
+    }
+
+    /**
+     * Removes a moderator from this Subreddit.
+     * @example await sW.getSubreddit('snoowrap_testing').removeModerator('spez');
+     */
+    async removeModerator(name: string | RedditUser) {
+        return this._unfriend('moderator', name);
+    }
+
+    /**
+     * Changes what a moderator may do.
+     * @param permissions What the moderator may do, defaults to everything.
+     * @example await sW.getSubreddit('snoowrap_testing').setModeratorPermissions({ name: 'spez', permissions: ['mail'] });
+     */
+    async setModeratorPermissions({ name, permissions }: { name: string | RedditUser; permissions?: ModeratorPermission[]; }) {
+        return this._fetch(`r/${this.name}/api/setpermissions`, {
+            method: 'POST',
+            scope: 'modothers',
+            form: { api_type: 'json', name: typeof name === 'string' ? name : name.name, permissions: formatPermissions(permissions), type: 'moderator' }
+        }).then(() => this);
+    }
+
+    /**
+     * Gets the users banned from this Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getBannedUsers().fetch().then(bans => console.log(bans.items[0].user.name));
+     */
+    getBannedUsers(options: ListingOptions = {}) {
+        return this._getUserList('banned', options);
+    }
+
+    /**
+     * Gets the users muted on this Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getMutedUsers().fetch();
+     */
+    getMutedUsers(options: ListingOptions = {}) {
+        return this._getUserList('muted', options);
+    }
+
+    /**
+     * Gets this Subreddit's approved submitters.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getContributors().fetch();
+     */
+    getContributors(options: ListingOptions = {}) {
+        return this._getUserList('contributors', options);
+    }
+
+    /**
+     * Gets this Subreddit's moderators and their permissions.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getModerators().fetch().then(mods => console.log(mods.items[0].permissions));
+     * // => ['all']
+     */
+    getModerators(options: ListingOptions = {}) {
+        return this._getUserList('moderators', options);
+    }
+
+    /**
+     * Adds a user to one of this Subreddit's user lists.
+     */
+    private async _friend(type: UserListType, name: string | RedditUser, fields: Record<string, any> = {}) {
+        return this._fetch(`r/${this.name}/api/friend`, {
+            method: 'POST',
+            scope: this._userListScope(type),
+            form: { api_type: 'json', name: typeof name === 'string' ? name : name.name, type, ...fields }
+        }).then(() => this);
+    }
+
+    /**
+     * Removes a user from one of this Subreddit's user lists.
+     */
+    private async _unfriend(type: UserListType, name: string | RedditUser) {
+        return this._fetch(`r/${this.name}/api/unfriend`, {
+            method: 'POST',
+            scope: this._userListScope(type),
+            form: { api_type: 'json', name: typeof name === 'string' ? name : name.name, type }
+        }).then(() => this);
+    }
+
+    private _userListScope(type: UserListType): OAuthScope {
+        return type === 'moderator' || type === 'moderator_invite' ? 'modothers' : 'modcontributors';
+    }
+
+    private _getUserList(list: 'banned' | 'muted' | 'contributors' | 'moderators', options: ListingOptions) {
+        return new Listing<SubredditRelationship>({
+            uri: `r/${this.name}/about/${list}`,
+            options,
+            createItem: (relationship: RawSubredditRelationship) => SubredditRelationship.fromRaw(relationship, this.snooWrapped)
+        }, this.snooWrapped);
+    }
+
+    private async _submit(kind: 'self' | 'link' | 'crosspost', fields: Record<string, any>, { title, sendReplies = true, nsfw, spoiler, flairId, flairText }: SubmitOptions) {
+        const { json }: RawSubmitResponse = await this._fetch('api/submit', {
+            method: 'POST',
+            scope: 'submit',
+            form: {
+                api_type: 'json',
+                sr: this.name,
+                kind,
+                title,
+                sendreplies: sendReplies,
+                nsfw,
+                spoiler,
+                flair_id: flairId,
+                flair_text: flairText,
+                ...fields
+            }
+        });
+
+        return {
+            name: json.data.name,
+            subreddit: new Subreddit({ name: this.name }, this.snooWrapped),
+            title,
+            nsfw,
+            spoiler
+        };
+    }
+
+    private _getModerationListing(location: string, { only, ...options }: ModerationListingOptions) {
+        return new Listing<Comment | Submission>({ uri: `r/${this.name}/about/${location}`, query: { only }, options }, this.snooWrapped);
     }
-}
\ No newline at end of file
+}
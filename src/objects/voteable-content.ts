@@ -0,0 +1,116 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RawListing } from "../types";
+import { ReplyableContent, Reports } from "./replyable-content";
+
+export type Votes = {
+    up?: number;
+    down?: number;
+    score?: number;
+    /** The authenticated account's vote, `true` for an upvote, `false` for a downvote and `null` for no vote. */
+    likes?: boolean | null;
+};
+
+/**
+ * Content that can be voted on and saved, i.e. Comments and Submissions.
+ */
+export class VoteableContent<Data extends {
+    name: string;
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    reportsIgnored?: boolean;
+    reports?: Reports;
+    votes?: Votes;
+    saved?: boolean;
+} = {
+    name: string;
+    approved?: boolean;
+    removed?: boolean;
+    spam?: boolean;
+    reportsIgnored?: boolean;
+    reports?: Reports;
+    votes?: Votes;
+    saved?: boolean;
+}> extends ReplyableContent<Data> {
+    public votes: Votes;
+    public saved?: boolean;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.votes = {
+            up: data.votes?.up,
+            down: data.votes?.down,
+            score: data.votes?.score,
+            likes: data.votes?.likes
+        };
+        this.saved = data.saved;
+    }
+
+    /**
+     * Fetches this item, fetches made at the same time are merged into a single `api/info` request.
+     * @example
+     *
+     * const [submission, comment] = await Promise.all([sW.getSubmission('4j8p6d').fetch(), sW.getComment('c0b6xx0').fetch()]);
+     */
+    async fetch<T = this>() {
+        const thing = await this.snooWrapped.infoBatcher.load(this.name);
+        const listing: RawListing = { kind: 'Listing', data: { after: null, before: null, children: thing ? [thing] : [] } };
+        return this._populate(listing) as Promise<T>;
+    }
+
+    /**
+     * Upvotes this item.
+     * **Note:** Votes must be cast by humans, automating them is against Reddit's rules.
+     * @example await sW.getSubmission('4j8p6d').upvote();
+     */
+    async upvote() {
+        return this._vote(1);
+    }
+
+    /**
+     * Downvotes this item.
+     * **Note:** Votes must be cast by humans, automating them is against Reddit's rules.
+     * @example await sW.getSubmission('4j8p6d').downvote();
+     */
+    async downvote() {
+        return this._vote(-1);
+    }
+
+    /**
+     * Removes the authenticated account's vote on this item.
+     * @example await sW.getSubmission('4j8p6d').unvote();
+     */
+    async unvote() {
+        return this._vote(0);
+    }
+
+    /**
+     * Saves this item to the authenticated account's saved content.
+     * @param category The category to save it in, this requires Reddit Premium.
+     * @example await sW.getSubmission('4j8p6d').save();
+     */
+    async save(category?: string) {
+        return this._fetch('api/save', { method: 'POST', scope: 'save', form: { id: this.name, category } })
+            .then(() => this._withData({ saved: true } as Partial<Data>));
+    }
+
+    /**
+     * Removes this item from the authenticated account's saved content.
+     * @example await sW.getSubmission('4j8p6d').unsave();
+     */
+    async unsave() {
+        return this._fetch('api/unsave', { method: 'POST', scope: 'save', form: { id: this.name } })
+            .then(() => this._withData({ saved: false } as Partial<Data>));
+    }
+
+    private async _vote(direction: 1 | 0 | -1) {
+        return this._fetch('api/vote', { method: 'POST', scope: 'vote', form: { id: this.name, dir: direction } })
+            .then(() => this._withData({
+                votes: {
+                    ...this.votes,
+                    likes: direction === 0 ? null : direction === 1
+                }
+            } as Partial<Data>));
+    }
+}
@@ -0,0 +1,197 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RawThing } from "../types";
+import { Listing, ListingOptions } from "./listing";
+import { RawRedditUser, RedditUser } from "./reddit-user";
+import { RedditContent } from "./reddit-content";
+import { Subreddit } from "./subreddit";
+import { RawWikiRevision, WikiRevision } from "./wiki-revision";
+
+type MissingEndpoint = { message: 'Not Found'; error: number; };
+
+export interface RawWikiPage {
+    content_md: string;
+    content_html: string;
+    may_revise: boolean;
+    reason: string | null;
+    revision_date: number;
+    revision_id: string;
+    revision_by: RawThing<'t2', RawRedditUser> | null;
+};
+
+interface RawWikiPageSettings {
+    permlevel: WikiPermissionLevel;
+    listed: boolean;
+    editors: RawThing<'t2', RawRedditUser>[];
+};
+
+/**
+ * Who may edit a page: `0` uses the subreddit's wiki settings, `1` only approved editors and `2` only moderators.
+ */
+export type WikiPermissionLevel = 0 | 1 | 2;
+
+export type WikiPageSettings = {
+    permissionLevel: WikiPermissionLevel;
+    /** Whether the page shows up in the subreddit's list of pages. */
+    listed: boolean;
+    /** The users who may edit the page on top of the permission level. */
+    editors: RedditUser[];
+};
+
+/**
+ * A page on a Subreddit's wiki.
+ * @example
+ *
+ * const page = await sW.getSubreddit('snoowrap_testing').getWikiPage('config/automoderator').fetch();
+ * console.log(page.content);
+ */
+export class WikiPage<Data extends {
+    name: string;
+    subreddit: Subreddit;
+    content?: string;
+    contentHtml?: string;
+    mayRevise?: boolean;
+    reason?: string;
+    revisionDate?: Date;
+    revisionId?: string;
+    revisedBy?: RedditUser;
+} = {
+    name: string;
+    subreddit: Subreddit;
+    content?: string;
+    contentHtml?: string;
+    mayRevise?: boolean;
+    reason?: string;
+    revisionDate?: Date;
+    revisionId?: string;
+    revisedBy?: RedditUser;
+}> extends RedditContent<Data> {
+    public subreddit: Subreddit;
+    /** The page's content, in markdown. */
+    public content?: string;
+    public contentHtml?: string;
+    /** Whether the authenticated account may edit this page. */
+    public mayRevise?: boolean;
+    /** The reason given for the latest edit. */
+    public reason?: string;
+    public revisionDate?: Date;
+    public revisionId?: string;
+    public revisedBy?: RedditUser;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.subreddit = data.subreddit;
+        this.content = data.content;
+        this.contentHtml = data.contentHtml;
+        this.mayRevise = data.mayRevise;
+        this.reason = data.reason;
+        this.revisionDate = data.revisionDate;
+        this.revisionId = data.revisionId;
+        this.revisedBy = data.revisedBy;
+    }
+
+    protected get uri() {
+        return `r/${this.subreddit.name}/wiki/${this.name}`;
+    }
+
+    protected get fetchScope() {
+        return 'wikiread' as const;
+    }
+
+    protected _populate(data: MissingEndpoint | RawThing<'wikipage', RawWikiPage>) {
+        if ('error' in data && data.error === 404) return;
+        if ('kind' in data && data.kind !== 'wikipage') return;
+
+        const pageData = (data as RawThing<'wikipage', RawWikiPage>).data;
+        return new WikiPage({
+            name: this.name,
+            subreddit: this.subreddit,
+            content: pageData.content_md,
+            contentHtml: pageData.content_html,
+            mayRevise: pageData.may_revise,
+            reason: pageData.reason ?? undefined,
+            revisionDate: new Date(pageData.revision_date * 1000),
+            revisionId: pageData.revision_id,
+            revisedBy: pageData.revision_by ? RedditUser.fromRaw(pageData.revision_by.data, this.snooWrapped) : undefined
+        }, this.snooWrapped);
+    }
+
+    /**
+     * Replaces the page's content, creating the page if it doesn't exist yet.
+     * @param reason Shown in the page's revision history.
+     * @param previousRevision The revision this edit is based on, Reddit rejects the edit if the page has changed since.
+     * @example await sW.getSubreddit('snoowrap_testing').getWikiPage('bot-config').edit({ text: 'enabled: true', reason: 'Turn the bot on' });
+     */
+    async edit({ text, reason, previousRevision }: { text: string; reason?: string; previousRevision?: string | WikiRevision; }) {
+        return this._fetch(`r/${this.subreddit.name}/api/wiki/edit`, {
+            method: 'POST',
+            scope: 'wikiedit',
+            form: {
+                page: this.name,
+                content: text,
+                reason,
+                previous: typeof previousRevision === 'string' ? previousRevision : previousRevision?.id
+            }
+        }).then(() => this);
+    }
+
+    /**
+     * Gets the page's revision history, newest first.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getWikiPage('bot-config').getRevisions({ limit: 5 }).fetch();
+     */
+    getRevisions(options: ListingOptions = {}) {
+        return new Listing<WikiRevision>({
+            uri: `r/${this.subreddit.name}/wiki/revisions/${this.name}`,
+            options,
+            scope: 'wikiread',
+            createItem: (revision: RawWikiRevision) => WikiRevision.fromRaw(revision, this.snooWrapped)
+        }, this.snooWrapped);
+    }
+
+    /**
+     * Reverts the page to an earlier revision.
+     * @example await sW.getSubreddit('snoowrap_testing').getWikiPage('bot-config').revert('0dbe4ad6-a41e-11eb-9b0b-0e2be7ad07d5');
+     */
+    async revert(revision: string | WikiRevision) {
+        return this._fetch(`r/${this.subreddit.name}/api/wiki/revert`, {
+            method: 'POST',
+            scope: 'modwiki',
+            form: { page: this.name, revision: typeof revision === 'string' ? revision : revision.id }
+        }).then(() => this);
+    }
+
+    /**
+     * Gets who may edit the page and whether it's listed.
+     * **Note:** This requires the authenticated account to be a moderator of the Subreddit.
+     * @example
+     *
+     * sW.getSubreddit('snoowrap_testing').getWikiPage('bot-config').getSettings().then(settings => console.log(settings.permissionLevel));
+     * // => 2
+     */
+    async getSettings(): Promise<WikiPageSettings> {
+        return this._fetch(`r/${this.subreddit.name}/wiki/settings/${this.name}`, { scope: 'modwiki' })
+            .then((settings: RawThing<'wikipagesettings', RawWikiPageSettings>) => this._settingsFromRaw(settings.data));
+    }
+
+    /**
+     * Changes who may edit the page and whether it's listed.
+     * @example await sW.getSubreddit('snoowrap_testing').getWikiPage('bot-config').editSettings({ permissionLevel: 2, listed: false });
+     */
+    async editSettings({ permissionLevel, listed }: { permissionLevel: WikiPermissionLevel; listed: boolean; }): Promise<WikiPageSettings> {
+        return this._fetch(`r/${this.subreddit.name}/wiki/settings/${this.name}`, {
+            method: 'POST',
+            scope: 'modwiki',
+            form: { permlevel: permissionLevel, listed }
+        }).then((settings: RawThing<'wikipagesettings', RawWikiPageSettings>) => this._settingsFromRaw(settings.data));
+    }
+
+    private _settingsFromRaw(settings: RawWikiPageSettings) {
+        return {
+            permissionLevel: settings.permlevel,
+            listed: settings.listed,
+            editors: settings.editors.map(editor => RedditUser.fromRaw(editor.data, this.snooWrapped))
+        };
+    }
+}
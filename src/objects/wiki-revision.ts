@@ -0,0 +1,69 @@
+import { SnooWrapped } from "../snoo-wrapped";
+import { RawThing } from "../types";
+import { RawRedditUser, RedditUser } from "./reddit-user";
+import { RedditContent } from "./reddit-content";
+
+export interface RawWikiRevision {
+    id: string;
+    page: string;
+    reason: string | null;
+    timestamp: number;
+    author?: RawThing<'t2', RawRedditUser>;
+    revision_hidden: boolean;
+};
+
+/**
+ * A single edit to a WikiPage.
+ */
+export class WikiRevision<Data extends {
+    name: string;
+    id?: string;
+    page?: string;
+    reason?: string;
+    author?: RedditUser;
+    created?: Date;
+    hidden?: boolean;
+} = {
+    name: string;
+    id?: string;
+    page?: string;
+    reason?: string;
+    author?: RedditUser;
+    created?: Date;
+    hidden?: boolean;
+}> extends RedditContent<Data> {
+    public id?: string;
+    /** The name of the page that was edited. */
+    public page?: string;
+    public reason?: string;
+    public author?: RedditUser;
+    public created?: Date;
+    /** Whether a moderator has hidden this revision from the page's history. */
+    public hidden?: boolean;
+
+    constructor(data: Data, snooWrapped: SnooWrapped) {
+        super(data, snooWrapped);
+
+        this.id = data.id;
+        this.page = data.page;
+        this.reason = data.reason;
+        this.author = data.author;
+        this.created = data.created;
+        this.hidden = data.hidden;
+    }
+
+    /**
+     * Creates a WikiRevision from one of the entries in a page's revision history.
+     */
+    static fromRaw(revisionData: RawWikiRevision, snooWrapped: SnooWrapped) {
+        return new WikiRevision({
+            name: `WikiRevision_${revisionData.id}`,
+            id: revisionData.id,
+            page: revisionData.page,
+            reason: revisionData.reason ?? undefined,
+            author: revisionData.author ? RedditUser.fromRaw(revisionData.author.data, snooWrapped) : undefined,
+            created: new Date(revisionData.timestamp * 1000),
+            hidden: revisionData.revision_hidden
+        }, snooWrapped);
+    }
+}
@@ -1,9 +1,38 @@
+import { EventEmitter } from "events";
+import mergeDeep from "merge-deep";
+import { URL, URLSearchParams } from "url";
 import { MissingCredentialsError } from "./errors/missing-credentials-error";
 import { RequiredArgumentError } from "./errors/required-argument-erorr";
 import { RedditUser } from "./objects/reddit-user";
 import { Comment } from "./objects/comment";
 import { addFullnamePrefix } from "./utils/add-fullname-prefix";
 import { Submission } from "./objects/submission";
+import { Subreddit } from "./objects/subreddit";
+import { ModLogAction, ModmailSort, ModmailStateFilter, OAuthScope, RawThing, RequestOptions, SearchOptions, Transport, TransportResponse } from "./types";
+import { nodeFetchTransport } from "./utils/node-fetch-transport";
+import { TokenManager } from "./utils/token-manager";
+import { RequestScheduler } from "./utils/request-scheduler";
+import { RedditApiError } from "./errors/reddit-api-error";
+import { backoffDelay } from "./utils/backoff-delay";
+import { sleep } from "./utils/sleep";
+import { ResponseCache, ResponseCacheOptions } from "./utils/response-cache";
+import { InfoBatcher } from "./utils/info-batcher";
+import { hasFullnamePrefix } from "./utils/has-fullname-prefix";
+import { InvalidFullnameError } from "./errors/invalid-fullname-error";
+import { InsufficientScopeError } from "./errors/insufficient-scope-error";
+import { errorFromResponse } from "./utils/error-from-response";
+import { createContent } from "./utils/create-content";
+import { RedditContent } from "./objects/reddit-content";
+import { LoggedInUser, RawLoggedInUser } from "./objects/logged-in-user";
+import { PrivateMessage } from "./objects/private-message";
+import { Listing, ListingOptions } from "./objects/listing";
+import { ContentStream, StreamOptions } from "./objects/content-stream";
+import { ModAction } from "./objects/mod-action";
+import { LiveThread } from "./objects/live-thread";
+import { MultiReddit, RawMultiReddit } from "./objects/multi-reddit";
+import { ModmailConversation, RawModmailConversation, RawModmailConversationResponse } from "./objects/modmail-conversation";
+import { RawModmailMessage } from "./objects/modmail-message";
+import { authRequest, RawTokenResponse, tokenFromResponse } from "./utils/auth-request";
 
 type accessToken = {
     accessToken: string;
@@ -20,54 +49,350 @@ type usernamePassword = {
     password: string;
 };
 
-type Credentials = accessToken | refreshToken | usernamePassword;
+type clientCredentials = {
+    clientId: string;
+    clientSecret: string;
+    /** Act as the app itself rather than a user, this can only read public content. */
+    grantType: 'client_credentials';
+};
+type installedClient = {
+    clientId: string;
+    /** Act as an installed app without a user, this can only read public content. */
+    grantType: 'installed_client';
+    /** A unique id of 20-30 characters for this device, defaults to `DO_NOT_TRACK_THIS_DEVICE`. */
+    deviceId?: string;
+};
+
+type Credentials = accessToken | refreshToken | usernamePassword | clientCredentials | installedClient;
 
-export type SnooWrappedOptions = {
+export type SnooWrappedBaseOptions = {
     userAgent: string;
-} & Credentials;
+    /** Sends the HTTP requests, defaults to node-fetch. */
+    transport?: Transport;
+    /** Base URL for API requests, defaults to `https://oauth.reddit.com/`. */
+    baseUrl?: string;
+    /** Base URL for authentication requests, defaults to `https://www.reddit.com/`. */
+    authBaseUrl?: string;
+    /** How many milliseconds before the access token expires it should be renewed, defaults to 60 seconds. */
+    tokenRefreshMargin?: number;
+    /** Wait for the ratelimit to reset instead of throwing a `RateLimitError`, defaults to `false`. */
+    continueAfterRatelimitError?: boolean;
+    /** The most requests that may be in flight at once, defaults to no limit. */
+    requestConcurrency?: number;
+    /** How many times a failed request is retried, defaults to 3. */
+    maxRetryAttempts?: number;
+    /** The delay in milliseconds before the first retry, doubling with each one after, defaults to 500. */
+    retryBackoffBase?: number;
+    /** Also retry requests that aren't idempotent such as `POST api/lock`, defaults to `false`. */
+    retryNonIdempotentRequests?: boolean;
+    /** Cache the responses to reads such as `fetch()`, pass options to configure the TTLs and store. Defaults to `false`. */
+    cache?: boolean | ResponseCacheOptions;
+    /** The OAuth scopes to request when getting a new access token, defaults to `['*']`. */
+    requestedScopes?: OAuthScope[];
+};
+
+type RawModmailConversations = {
+    conversationIds: string[];
+    conversations: Record<string, RawModmailConversation>;
+    messages: Record<string, RawModmailMessage>;
+};
+
+export type ModmailUnreadCount = {
+    new: number;
+    inprogress: number;
+    archived: number;
+    highlighted: number;
+    mod: number;
+    notifications: number;
+    joinRequests: number;
+    appeals: number;
+};
+
+export type SnooWrappedOptions = SnooWrappedBaseOptions & Credentials;
 
-export class SnooWrapped {
+const DEFAULT_BASE_URL = 'https://oauth.reddit.com/';
+const DEFAULT_AUTH_BASE_URL = 'https://www.reddit.com/';
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export class SnooWrapped extends EventEmitter {
     public readonly userAgent: string;
+    public readonly transport: Transport;
+    public readonly baseUrl: string;
+    public readonly authBaseUrl: string;
+    public readonly tokenManager: TokenManager;
+    public readonly scheduler: RequestScheduler;
+    public readonly cache?: ResponseCache;
+    public readonly infoBatcher: InfoBatcher;
+    public readonly requestedScopes: OAuthScope[];
 
     #clientId?: string;
     #clientSecret?: string;
     #refreshToken?: string;
-    #accessToken?: string;
-    #tokenExpiration?: Date;
     #username?: string;
     #password?: string;
-    #scope?: string[];
+    #grantType?: 'client_credentials' | 'installed_client';
+    #deviceId?: string;
+    #maxRetryAttempts: number;
+    #retryBackoffBase: number;
+    #retryNonIdempotentRequests: boolean;
+
+    /**
+     * Gets the URL to send users to so they can authorize your app, they're sent back to `redirectUri` with a `code` afterwards.
+     * @param scope The OAuth scopes your app needs, e.g. `['identity', 'read']`.
+     * @param permanent Whether a refresh token should be issued, otherwise access expires after an hour. Defaults to `true`.
+     * @param state A random string that's passed back to `redirectUri`, check it matches to prevent CSRF.
+     * @param compact Use Reddit's mobile friendly authorization page.
+     * @example
+     *
+     * SnooWrapped.getAuthUrl({ clientId: 'foo', scope: ['identity'], redirectUri: 'https://example.com/callback', state: 'fe211bebc52eb3da9bef8db6e63104d3' });
+     * // => 'https://www.reddit.com/api/v1/authorize?client_id=foo&response_type=code&state=...'
+     */
+    static getAuthUrl({ clientId, scope, redirectUri, permanent = true, state, compact = false, authBaseUrl = DEFAULT_AUTH_BASE_URL }: {
+        clientId: string;
+        scope: OAuthScope[];
+        redirectUri: string;
+        permanent?: boolean;
+        state: string;
+        compact?: boolean;
+        authBaseUrl?: string;
+    }) {
+        if (!clientId) throw new RequiredArgumentError('clientId');
+        if (!scope?.length) throw new RequiredArgumentError('scope');
+        if (!redirectUri) throw new RequiredArgumentError('redirectUri');
+        if (!state) throw new RequiredArgumentError('state');
+
+        const url = new URL(compact ? 'api/v1/authorize.compact' : 'api/v1/authorize', authBaseUrl);
+        url.searchParams.append('client_id', clientId);
+        url.searchParams.append('response_type', 'code');
+        url.searchParams.append('state', state);
+        url.searchParams.append('redirect_uri', redirectUri);
+        url.searchParams.append('duration', permanent ? 'permanent' : 'temporary');
+        url.searchParams.append('scope', scope.join(' '));
+        return url.href;
+    }
+
+    /**
+     * Creates an instance from the `code` Reddit sent to your `redirectUri`, see `getAuthUrl()`.
+     * @param code The code from the redirect's query.
+     * @param redirectUri The same `redirectUri` that was passed to `getAuthUrl()`.
+     * @example
+     *
+     * const sW = await SnooWrapped.fromAuthCode({ code: req.query.code, redirectUri: 'https://example.com/callback', clientId: 'foo', clientSecret: 'bar', userAgent: 'my-app' });
+     */
+    static async fromAuthCode({ code, redirectUri, clientId, clientSecret, ...options }: SnooWrappedBaseOptions & {
+        code: string;
+        redirectUri: string;
+        clientId: string;
+        clientSecret: string;
+    }) {
+        if (!code) throw new RequiredArgumentError('code');
+        if (!redirectUri) throw new RequiredArgumentError('redirectUri');
+        if (!options?.userAgent) throw new RequiredArgumentError('options.userAgent');
+
+        const response = await authRequest<RawTokenResponse>({
+            transport: options.transport ?? nodeFetchTransport,
+            authBaseUrl: options.authBaseUrl ?? DEFAULT_AUTH_BASE_URL,
+            userAgent: options.userAgent,
+            clientId,
+            clientSecret
+        }, 'api/v1/access_token', { grant_type: 'authorization_code', code, redirect_uri: redirectUri });
+        const { accessToken, refreshToken, tokenExpiration, scope } = tokenFromResponse(response);
+
+        // Temporary grants don't come with a refresh token
+        const snooWrapped = refreshToken
+            ? new SnooWrapped({ ...options, clientId, clientSecret, refreshToken })
+            : new SnooWrapped({ ...options, accessToken });
+        snooWrapped.updateAccessToken(accessToken, tokenExpiration, scope);
+        return snooWrapped;
+    }
 
     constructor(options: SnooWrappedOptions) {
+        super();
+
         if (!options?.userAgent) throw new RequiredArgumentError('options.userAgent');
 
         // Convert the credentials type to a partial as the user may not have provided all of the required fields
-        const opts = options as SnooWrappedOptions & Partial<accessToken & refreshToken & usernamePassword>;
+        const opts = options as SnooWrappedOptions & Partial<accessToken & refreshToken & usernamePassword & Omit<installedClient, 'grantType'>> & { grantType?: 'client_credentials' | 'installed_client'; };
 
         // Check options for credentials
         if ((!opts.accessToken || typeof opts.accessToken !== 'string') &&
           (opts.clientId === undefined || opts.clientSecret === undefined || typeof opts.refreshToken !== 'string') &&
-          (opts.clientId === undefined || opts.clientSecret === undefined || opts.username === undefined || opts.password === undefined)
+          (opts.clientId === undefined || opts.clientSecret === undefined || opts.username === undefined || opts.password === undefined) &&
+          (opts.clientId === undefined || opts.clientSecret === undefined || opts.grantType !== 'client_credentials') &&
+          (opts.clientId === undefined || opts.grantType !== 'installed_client')
         ) {
             throw new MissingCredentialsError();
         }
 
         // Save user agent
         this.userAgent = opts.userAgent;
-    
+
+        // Save transport
+        this.transport = opts.transport ?? nodeFetchTransport;
+        this.baseUrl = opts.baseUrl ?? DEFAULT_BASE_URL;
+        this.authBaseUrl = opts.authBaseUrl ?? DEFAULT_AUTH_BASE_URL;
+
         // Save credentials
         this.#clientId = opts.clientId;
         this.#clientSecret = opts.clientSecret;
         this.#refreshToken = opts.refreshToken;
-        this.#accessToken = opts.accessToken;
         this.#username = opts.username;
         this.#password = opts.password;
+        this.#grantType = opts.grantType;
+        this.#deviceId = opts.grantType === 'installed_client' ? opts.deviceId ?? 'DO_NOT_TRACK_THIS_DEVICE' : undefined;
+        this.requestedScopes = opts.requestedScopes?.length ? opts.requestedScopes : ['*'];
+
+        // Hand the access token over to the token manager
+        this.tokenManager = new TokenManager(this, opts.tokenRefreshMargin);
+        if (opts.accessToken) this.tokenManager.setToken({ accessToken: opts.accessToken });
+
+        // Queue requests around the ratelimit
+        this.scheduler = new RequestScheduler({
+            continueAfterRatelimitError: opts.continueAfterRatelimitError,
+            concurrency: opts.requestConcurrency
+        });
+
+        // Merge concurrent lookups into batches
+        this.infoBatcher = new InfoBatcher(this);
+
+        // Cache responses if asked to
+        if (opts.cache) this.cache = new ResponseCache(this.baseUrl, opts.cache === true ? {} : opts.cache);
+
+        // Save retry options
+        this.#maxRetryAttempts = opts.maxRetryAttempts ?? 3;
+        this.#retryBackoffBase = opts.retryBackoffBase ?? 500;
+        this.#retryNonIdempotentRequests = opts.retryNonIdempotentRequests ?? false;
+    }
+
+    /**
+     * The ratelimit state from Reddit's most recent response.
+     * @example
+     *
+     * sW.ratelimit;
+     * // => { remaining: 598, used: 2, reset: 2021-08-01T10:10:00.000Z }
+     */
+    get ratelimit() {
+        return this.scheduler.ratelimit;
+    }
+
+    /**
+     * Sends an authenticated request to the Reddit API and resolves with the parsed response.
+     * Network errors, 5xx and 429 responses are retried with exponential backoff.
+     * @param uri The endpoint, relative to the API base URL.
+     * @param attempts The number of the current attempt.
+     * @example
+     *
+     * sW.oauthRequest('api/v1/me').then(me => console.log(me.name));
+     * // => 'OmgImAlexis'
+     */
+    async oauthRequest<T = any>(uri: string, options: RequestOptions = {}, attempts = 1): Promise<T> {
+        const { query, form, method = 'GET', headers, scope } = options;
+
+        // Fail before sending anything if the token can't use this endpoint
+        if (scope && attempts === 1 && !await this.hasScope(scope)) throw new InsufficientScopeError(scope, this.tokenManager.scope ?? [], uri);
+
+        // Resolve URL
+        const url = new URL(uri, this.baseUrl);
+        Object.entries(query ?? {}).forEach(([key, value]) => {
+            if (value !== undefined) url.searchParams.append(key, value);
+        });
+
+        // Answer from the cache when we can, only reads opt in so writes sent as GET always reach Reddit
+        const cache = options.cache ? this.cache : undefined;
+        if (attempts === 1) {
+            const cached = await cache?.get(method, url);
+            if (cached !== undefined) return cached ? JSON.parse(cached) : {};
+        }
+
+        // Resolve body
+        let body = options.body;
+        if (form) {
+            const params = new URLSearchParams();
+            Object.entries(form).forEach(([key, value]) => {
+                if (value !== undefined) params.append(key, value);
+            });
+            body = params.toString();
+        }
+
+        // Send query to Reddit
+        let sent = false;
+        let response: TransportResponse;
+        try {
+            response = await this.scheduler.schedule(uri, async () => {
+                // Update access token
+                const accessToken = await this.tokenManager.getAccessToken();
+
+                // Resolve headers
+                const requestHeaders = mergeDeep({
+                    'User-Agent': this.userAgent,
+                    'Authorization': `Bearer ${accessToken}`,
+                    ...(form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {})
+                }, headers ?? {});
+
+                sent = true;
+                return this.transport({ method, url: url.href, headers: requestHeaders, body });
+            });
+        } catch (error) {
+            // Only errors thrown by the transport are worth retrying
+            if (!sent || !this._canRetry(method, attempts)) throw error;
+            await sleep(backoffDelay(attempts, this.#retryBackoffBase));
+            return this.oauthRequest(uri, options, attempts + 1);
+        }
+
+        // Retry transient failures
+        if ((response.status === 429 || response.status >= 500) && this._canRetry(method, attempts)) {
+            await sleep(backoffDelay(attempts, this.#retryBackoffBase, response.headers['retry-after']));
+            return this.oauthRequest(uri, options, attempts + 1);
+        }
+
+        if (response.status >= 400) throw errorFromResponse(response, uri);
+
+        // Reddit reports most validation errors with a 200 status
+        const data = response.body ? JSON.parse(response.body) : {};
+        if (data?.json?.errors?.length) throw new RedditApiError(data.json.errors, response.status, uri, response.body);
+
+        await cache?.set(method, url, response.body);
+        return data;
+    }
+
+    /**
+     * Creates the matching object for a raw thing Reddit returned, e.g. `{ kind: 't1', data: { ... } }`.
+     * Returns `undefined` for kinds we don't have a class for.
+     * @example
+     *
+     * sW.createContent({ kind: 't2', data: { name: 'OmgImAlexis' } });
+     * // => RedditUser { name: 'OmgImAlexis' }
+     */
+    createContent<T extends RedditContent = RedditContent>(thing: RawThing): T | undefined {
+        return createContent(thing, this) as T | undefined;
+    }
+
+    private _canRetry(method: string, attempts: number) {
+        if (attempts > this.#maxRetryAttempts) return false;
+        return IDEMPOTENT_METHODS.includes(method.toUpperCase()) || this.#retryNonIdempotentRequests;
     }
 
+    /**
+     * Replaces the current access token, e.g. with one persisted from a `tokenRefreshed` event.
+     * @example
+     *
+     * sW.on('tokenRefreshed', token => saveToken(token));
+     * sW.updateAccessToken(savedToken.accessToken, savedToken.tokenExpiration, savedToken.scope);
+     */
     updateAccessToken(accessToken: string, expiration: Date, scope: string[]) {
-        this.#accessToken = accessToken;
-        this.#tokenExpiration = expiration;
-        this.#scope = scope;
+        this.tokenManager.setToken({ accessToken, tokenExpiration: expiration, scope });
+    }
+
+    /**
+     * Whether the access token was granted all of the scopes, requesting a token first if we don't have one yet.
+     * @example
+     *
+     * if (await sW.hasScope('modposts')) await sW.getSubmission('2np694').lock();
+     */
+    async hasScope(...scopes: OAuthScope[]) {
+        await this.tokenManager.getAccessToken();
+        return scopes.every(scope => this.tokenManager.hasScope(scope));
     }
 
     get credentials() {
@@ -75,14 +400,36 @@ export class SnooWrapped {
             clientId: this.#clientId,
             clientSecret: this.#clientSecret,
             refreshToken: this.#refreshToken,
-            accessToken: this.#accessToken,
-            tokenExpiration: this.#tokenExpiration,
-            scope: this.#scope,
+            accessToken: this.tokenManager.accessToken,
+            tokenExpiration: this.tokenManager.tokenExpiration,
+            scope: this.tokenManager.scope,
             username: this.#username,
-            password: this.#password
+            password: this.#password,
+            grantType: this.#grantType,
+            deviceId: this.#deviceId
         };
     }
 
+    /**
+     * Revokes the current access token, a new one is requested on the next request if the credentials allow it.
+     * @example await sW.revokeAccessToken();
+     */
+    async revokeAccessToken() {
+        const { accessToken } = this.tokenManager;
+        if (accessToken) await this.tokenManager.revoke(accessToken, 'access_token');
+    }
+
+    /**
+     * Revokes the refresh token and the access tokens created with it, this instance can't make requests afterwards.
+     * @example await sW.revokeRefreshToken();
+     */
+    async revokeRefreshToken() {
+        if (!this.#refreshToken) throw new RequiredArgumentError('refreshToken');
+
+        await this.tokenManager.revoke(this.#refreshToken, 'refresh_token');
+        this.#refreshToken = undefined;
+    }
+
     /**
      * Gets information on a Reddit user with a given name.
      * @param name The user's username.
@@ -124,4 +471,372 @@ export class SnooWrapped {
     getSubmission(submissionId: string): Submission {
         return new Submission({ name: addFullnamePrefix(submissionId, 't3_') }, this);
     }
+
+    /**
+     * Gets information on a given subreddit.
+     * @param name The name of the subreddit, e.g. 'AskReddit'.
+     * @example
+     *
+     * sW.getSubreddit('AskReddit');
+     * // => Subreddit { name: 'AskReddit' }
+     * sW.getSubreddit('AskReddit').fetch().then(subreddit => console.log(subreddit.title));
+     * // => 'Ask Reddit...'
+     */
+    getSubreddit(name: string): Subreddit {
+        return new Subreddit({ name: name.replace(/^\/?r\//, '') }, this);
+    }
+
+    /**
+     * Streams new Submissions as they're posted.
+     * @param subreddit The subreddit to watch, defaults to all of Reddit.
+     * @example
+     *
+     * for await (const submission of sW.streamSubmissions({ subreddit: 'AskReddit' })) {
+     *   console.log(submission.title);
+     * }
+     */
+    streamSubmissions({ subreddit = 'all', limit = 100, ...options }: StreamOptions & { subreddit?: string | Subreddit; } = {}) {
+        return new ContentStream(this._subreddit(subreddit).getNew({ limit }), options);
+    }
+
+    /**
+     * Streams new Comments as they're posted.
+     * @param subreddit The subreddit to watch, defaults to all of Reddit.
+     * @example
+     *
+     * for await (const comment of sW.streamComments({ subreddit: 'AskReddit' })) {
+     *   console.log(comment.body);
+     * }
+     */
+    streamComments({ subreddit = 'all', limit = 100, ...options }: StreamOptions & { subreddit?: string | Subreddit; } = {}) {
+        return new ContentStream(new Listing<Comment>({ uri: `r/${this._subreddit(subreddit).name}/comments`, options: { limit } }, this), options);
+    }
+
+    /**
+     * Streams new items in the authenticated account's inbox.
+     * @param filter Only include one kind of item, see `getInbox()`.
+     * @example
+     *
+     * for await (const message of sW.streamInbox({ filter: 'mentions' })) {
+     *   console.log(message.name);
+     * }
+     */
+    streamInbox({ filter, limit = 100, ...options }: StreamOptions & { filter?: 'inbox' | 'unread' | 'messages' | 'comments' | 'selfreply' | 'mentions'; } = {}) {
+        return new ContentStream(this.getInbox({ filter, limit }), options);
+    }
+
+    /**
+     * Streams new moderation log entries.
+     * @param subreddit The subreddit to watch, defaults to every subreddit the authenticated account moderates.
+     * @example
+     *
+     * for await (const action of sW.streamModlog({ subreddit: 'snoowrap', type: 'removelink' })) {
+     *   console.log(action.moderator?.name, action.target.fullname);
+     * }
+     */
+    streamModlog({ subreddit = 'mod', mods, type, limit = 100, ...options }: StreamOptions & { subreddit?: string | Subreddit; mods?: (string | RedditUser)[]; type?: ModLogAction; } = {}): ContentStream<ModAction> {
+        return new ContentStream(this._subreddit(subreddit).getModerationLog({ mods, type, limit }), options);
+    }
+
+    private _subreddit(subreddit: string | Subreddit) {
+        return subreddit instanceof Subreddit ? subreddit : this.getSubreddit(subreddit);
+    }
+
+    /**
+     * Searches Submissions across Reddit, or in one subreddit.
+     * @param subreddit Only search this subreddit.
+     * @example
+     *
+     * sW.search({ query: 'snoowrap', subreddit: 'javascript', sort: 'top', time: 'year' }).fetch();
+     */
+    search({ subreddit, ...options }: ListingOptions & SearchOptions & { subreddit?: string | Subreddit; }) {
+        if (!options.query) throw new RequiredArgumentError('query');
+        if (subreddit) return this._subreddit(subreddit).search(options);
+
+        const { query, sort, time, syntax, ...listingOptions } = options;
+        return new Listing<Submission>({ uri: 'search', query: { q: query, sort, t: time, syntax, type: 'link' }, options: listingOptions }, this);
+    }
+
+    /**
+     * Gets the names of subreddits that start with a query.
+     * @param exact Only return a subreddit with exactly this name.
+     * @param includeNsfw Include NSFW subreddits, defaults to `true`.
+     * @example
+     *
+     * sW.searchSubredditNames({ query: 'snoo' }).then(names => console.log(names));
+     * // => ['snoowrap', 'snoobot', ...]
+     */
+    async searchSubredditNames({ query, exact = false, includeNsfw = true }: { query: string; exact?: boolean; includeNsfw?: boolean; }): Promise<string[]> {
+        if (!query) throw new RequiredArgumentError('query');
+
+        return this.oauthRequest('api/search_reddit_names', { scope: 'read', query: { query, exact, include_over_18: includeNsfw } })
+            .then(({ names }: { names: string[]; }) => names);
+    }
+
+    /**
+     * Searches subreddits by name and description.
+     * @example
+     *
+     * sW.searchSubreddits({ query: 'programming' }).fetch();
+     */
+    searchSubreddits({ query, ...options }: ListingOptions & { query: string; }) {
+        if (!query) throw new RequiredArgumentError('query');
+        return new Listing<Subreddit>({ uri: 'subreddits/search', query: { q: query }, options }, this);
+    }
+
+    /**
+     * Searches users by name and profile description.
+     * @example
+     *
+     * sW.searchUsers({ query: 'alexis' }).fetch();
+     */
+    searchUsers({ query, ...options }: ListingOptions & { query: string; }) {
+        if (!query) throw new RequiredArgumentError('query');
+        return new Listing<RedditUser>({ uri: 'users/search', query: { q: query }, options }, this);
+    }
+
+    /**
+     * Gets many Comments, Submissions and Subreddits at once, 100 per request.
+     * Results are in the same order as the input, anything Reddit doesn't know about is left out.
+     * @param items The fullnames of the items, or the items themselves.
+     * @example
+     *
+     * sW.getContentByIds(['t3_4j8p6d', 't1_c0b6xx0', sW.getComment('d3i8xyz')]).then(items => console.log(items.map(item => item.name)));
+     * // => ['t3_4j8p6d', 't1_c0b6xx0', 't1_d3i8xyz']
+     */
+    async getContentByIds<T extends RedditContent = RedditContent>(items: (string | RedditContent)[]): Promise<T[]> {
+        const names = items.map(item => {
+            const name = addFullnamePrefix(item, '');
+            if (!hasFullnamePrefix(name)) throw new InvalidFullnameError(name);
+            return name;
+        });
+
+        const things = await Promise.all(names.map(name => this.infoBatcher.load(name)));
+        return things
+            .filter((thing): thing is RawThing => thing !== undefined)
+            .map(thing => this.createContent<T>(thing))
+            .filter((content): content is T => content !== undefined);
+    }
+
+    /**
+     * Gets a live thread by its id.
+     * @param threadId The live thread's id.
+     * @example
+     *
+     * sW.getLivethread('whrdxo8dg9n0');
+     * // => LiveThread { name: 'LiveUpdateEvent_whrdxo8dg9n0' }
+     * sW.getLivethread('whrdxo8dg9n0').stream.on('update', update => console.log(update.body));
+     */
+    getLivethread(threadId: string): LiveThread {
+        return new LiveThread({ name: addFullnamePrefix(threadId, 'LiveUpdateEvent_') }, this);
+    }
+
+    /**
+     * Gets the authenticated account.
+     * @example
+     *
+     * sW.getMe().then(me => console.log(me.name, me.inboxCount));
+     * // => 'OmgImAlexis' 3
+     */
+    async getMe(): Promise<LoggedInUser> {
+        return this.oauthRequest('api/v1/me', { scope: 'identity' })
+            .then((userData: RawLoggedInUser) => LoggedInUser.fromRaw(userData, this));
+    }
+
+    /**
+     * Gets the authenticated account's multireddits.
+     * @example
+     *
+     * sW.getMyMultireddits().then(multis => console.log(multis.map(multi => multi.displayName)));
+     * // => ['Programming', 'News']
+     */
+    async getMyMultireddits(): Promise<MultiReddit[]> {
+        return this.oauthRequest('api/multi/mine', { scope: 'read' })
+            .then((multis: RawThing<'LabeledMulti', RawMultiReddit>[]) => multis.map(multi => MultiReddit.fromRaw(multi.data, this)));
+    }
+
+    /**
+     * Gets a private message by its id.
+     * @param messageId The base36 id of the message.
+     * @example
+     *
+     * sW.getMessage('51shnw');
+     * // => PrivateMessage { name: 't4_51shnw' }
+     */
+    getMessage(messageId: string): PrivateMessage {
+        return new PrivateMessage({ name: addFullnamePrefix(messageId, 't4_') }, this);
+    }
+
+    /**
+     * Gets the authenticated account's inbox, comment replies and username mentions show up as Comments.
+     * @param filter Only include one kind of item, defaults to everything.
+     * @example
+     *
+     * sW.getInbox({ filter: 'messages' }).fetch();
+     */
+    getInbox({ filter = 'inbox', ...options }: ListingOptions & { filter?: 'inbox' | 'unread' | 'messages' | 'comments' | 'selfreply' | 'mentions'; } = {}) {
+        return new Listing<PrivateMessage | Comment>({ uri: `message/${filter}`, options, scope: 'privatemessages' }, this);
+    }
+
+    /**
+     * Gets the unread items in the authenticated account's inbox.
+     * @example
+     *
+     * sW.getUnreadMessages().fetch();
+     */
+    getUnreadMessages(options: ListingOptions = {}) {
+        return this.getInbox({ ...options, filter: 'unread' });
+    }
+
+    /**
+     * Gets the messages the authenticated account has sent.
+     * @example
+     *
+     * sW.getSentMessages().fetch();
+     */
+    getSentMessages(options: ListingOptions = {}) {
+        return new Listing<PrivateMessage>({ uri: 'message/sent', options, scope: 'privatemessages' }, this);
+    }
+
+    /**
+     * Marks inbox items as read.
+     * @param messages The messages, or the ids of the messages, to mark. Ids without a prefix are treated as private messages.
+     * @example
+     *
+     * await sW.markMessagesAsRead(['51shnw', 't1_d3i8xyz']);
+     */
+    async markMessagesAsRead(messages: (string | PrivateMessage | Comment)[]) {
+        await this.oauthRequest('api/read_message', { method: 'POST', scope: 'privatemessages', form: { id: this._messageFullnames(messages) } });
+    }
+
+    /**
+     * Marks inbox items as unread.
+     * @param messages The messages, or the ids of the messages, to mark. Ids without a prefix are treated as private messages.
+     * @example
+     *
+     * await sW.markMessagesAsUnread(['51shnw']);
+     */
+    async markMessagesAsUnread(messages: (string | PrivateMessage | Comment)[]) {
+        await this.oauthRequest('api/unread_message', { method: 'POST', scope: 'privatemessages', form: { id: this._messageFullnames(messages) } });
+    }
+
+    private _messageFullnames(messages: (string | PrivateMessage | Comment)[]) {
+        return messages.map(message => typeof message === 'string' ? addFullnamePrefix(message, 't4_') : message.name).join(',');
+    }
+
+    /**
+     * Sends a private message.
+     * @param to The recipient, a Subreddit sends the message to its moderators.
+     * @param subject The message's subject.
+     * @param text The message's content, in markdown.
+     * @param fromSubreddit Send the message as a subreddit the authenticated account moderates.
+     * @example
+     *
+     * await sW.composeMessage({ to: 'OmgImAlexis', subject: 'Hi', text: 'Hello there!' });
+     */
+    async composeMessage({ to, subject, text, fromSubreddit }: { to: string | RedditUser | Subreddit; subject: string; text: string; fromSubreddit?: string | Subreddit; }) {
+        if (!to) throw new RequiredArgumentError('to');
+        if (!subject) throw new RequiredArgumentError('subject');
+
+        await this.oauthRequest('api/compose', {
+            method: 'POST',
+            scope: 'privatemessages',
+            form: {
+                api_type: 'json',
+                to: to instanceof Subreddit ? `/r/${to.name}` : typeof to === 'string' ? to : to.name,
+                subject,
+                text,
+                from_sr: fromSubreddit instanceof Subreddit ? fromSubreddit.name : fromSubreddit
+            }
+        });
+    }
+
+    /**
+     * Gets new modmail conversations from the subreddits the authenticated account moderates.
+     * @param state Only include conversations in this folder, defaults to `all`.
+     * @param entity Only include conversations with these subreddits, defaults to all of them.
+     * @param after The id of the conversation to start after.
+     * @example
+     *
+     * sW.getNewModmailConversations({ state: 'new', entity: ['snoowrap_testing'] }).then(conversations => console.log(conversations[0].subject));
+     */
+    async getNewModmailConversations({ state = 'all', entity, sort, limit, after }: {
+        state?: ModmailStateFilter;
+        entity?: (string | Subreddit)[];
+        sort?: ModmailSort;
+        limit?: number;
+        after?: string | ModmailConversation;
+    } = {}): Promise<ModmailConversation[]> {
+        return this.oauthRequest('api/mod/conversations', {
+            scope: 'modmail',
+            query: {
+                state,
+                entity: entity?.map(subreddit => this._subreddit(subreddit).name).join(','),
+                sort,
+                limit,
+                after: typeof after === 'string' ? after : after?.name
+            }
+        }).then(({ conversationIds, conversations, messages }: RawModmailConversations) => conversationIds
+            .map(id => ModmailConversation.fromRaw(conversations[id], messages, this)));
+    }
+
+    /**
+     * Gets a new modmail conversation by its id.
+     * @example
+     *
+     * sW.getConversation('1l7pjk').fetch().then(conversation => console.log(conversation.messages[0].body));
+     */
+    getConversation(conversationId: string): ModmailConversation {
+        return new ModmailConversation({ name: conversationId }, this);
+    }
+
+    /**
+     * Starts a modmail conversation that only a subreddit's moderators can see.
+     * @example
+     *
+     * sW.createModmailDiscussion({ subreddit: 'snoowrap_testing', subject: 'New rules', body: 'What do we think of these?' });
+     */
+    async createModmailDiscussion({ subreddit, subject, body }: { subreddit: string | Subreddit; subject: string; body: string; }) {
+        if (!subject) throw new RequiredArgumentError('subject');
+        if (!body) throw new RequiredArgumentError('body');
+
+        return this.oauthRequest('api/mod/conversations', {
+            method: 'POST',
+            scope: 'modmail',
+            form: { srName: this._subreddit(subreddit).name, subject, body, isAuthorHidden: false }
+        }).then(({ conversation, messages }: RawModmailConversationResponse) => ModmailConversation.fromRaw(conversation, messages, this));
+    }
+
+    /**
+     * Gets how many unread new modmail conversations there are in each folder.
+     * @example
+     *
+     * sW.getUnreadModmailCount().then(counts => console.log(counts.new));
+     * // => 3
+     */
+    async getUnreadModmailCount(): Promise<ModmailUnreadCount> {
+        return this.oauthRequest('api/mod/conversations/unread/count', { scope: 'modmail' })
+            .then((counts: Record<string, number>) => ({
+                new: counts.new ?? 0,
+                inprogress: counts.inprogress ?? 0,
+                archived: counts.archived ?? 0,
+                highlighted: counts.highlighted ?? 0,
+                mod: counts.mod ?? 0,
+                notifications: counts.notifications ?? 0,
+                joinRequests: counts.join_requests ?? 0,
+                appeals: counts.appeals ?? 0
+            }));
+    }
 }
+
+export { RedditRequestError } from "./errors/reddit-request-error";
+export { RedditApiError } from "./errors/reddit-api-error";
+export { NotFoundError } from "./errors/not-found-error";
+export { ForbiddenError } from "./errors/forbidden-error";
+export { RateLimitError } from "./errors/rate-limit-error";
+export { AuthenticationError } from "./errors/authentication-error";
+export { InvalidGrantError } from "./errors/invalid-grant-error";
+export { MissingCredentialsError } from "./errors/missing-credentials-error";
+export { RequiredArgumentError } from "./errors/required-argument-erorr";
+export { InvalidFullnameError } from "./errors/invalid-fullname-error";
+export { InsufficientScopeError } from "./errors/insufficient-scope-error";
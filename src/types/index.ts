@@ -4,4 +4,135 @@ export type SubredditType = 'public' | 'private' | 'restricted' | 'gold_restrict
 
 export type ModLogAction = 'banuser' | 'unbanuser' | 'removelink' | 'approvelink' | 'removecomment' | 'approvecomment' | 'addmoderator' | 'invitemoderator' | 'uninvitemoderator' | 'acceptmoderatorinvite' | 'removemoderator' | 'addcontributor' | 'removecontributor' | 'editsettings' | 'editflair' | 'distinguish' | 'marknsfw' | 'wikibanned' | 'wikicontributor' | 'wikiunbanned' | 'wikipagelisted' | 'removewikicontributor' | 'wikirevise' | 'wikipermlevel' | 'ignorereports' | 'unignorereports' | 'setpermissions' | 'setsuggestedsort' | 'sticky' | 'unsticky' | 'setcontestmode' | 'unsetcontestmode' | 'lock' | 'unlock' | 'muteuser' | 'unmuteuser' | 'createrule' | 'editrule' | 'deleterule' | 'spoiler' | 'unspoiler';
 
-export type CommentSort = 'confidence' | 'top' | 'new' | 'controversial' | 'old' | 'random' | 'qa';
\ No newline at end of file
+export type CommentSort = 'confidence' | 'top' | 'new' | 'controversial' | 'old' | 'random' | 'qa';
+
+export type TimeFilter = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export type LiveThreadPermission = 'update' | 'edit' | 'manage' | 'close' | 'settings' | 'discussions';
+
+export type ModeratorPermission = 'access' | 'config' | 'flair' | 'mail' | 'posts' | 'wiki' | 'chat_config' | 'chat_operator';
+
+export type ModmailConversationState = 'new' | 'inprogress' | 'archived' | 'appeals' | 'join_requests' | 'filtered';
+
+/**
+ * Which modmail conversations to list, `mod` is discussions between moderators.
+ */
+export type ModmailStateFilter = 'all' | 'new' | 'inprogress' | 'mod' | 'notifications' | 'archived' | 'highlighted' | 'join_requests' | 'appeals';
+
+export type ModmailSort = 'recent' | 'mod' | 'user' | 'unread';
+
+/**
+ * The OAuth scopes a token can be granted, `*` grants all of them.
+ */
+export type OAuthScope = '*' | 'account' | 'creddits' | 'edit' | 'flair' | 'history' | 'identity' | 'livemanage' | 'modconfig' | 'modcontributors' | 'modflair' | 'modlog' | 'modmail' | 'modothers' | 'modposts' | 'modself' | 'modtraffic' | 'modwiki' | 'mysubreddits' | 'privatemessages' | 'read' | 'report' | 'save' | 'structuredstyles' | 'submit' | 'subscribe' | 'vote' | 'wikiedit' | 'wikiread';
+
+export type Flair = {
+    text?: string;
+    cssClass?: string;
+    templateId?: string;
+};
+
+export type FlairTemplate = {
+    id: string;
+    text: string;
+    textEditable: boolean;
+    cssClass: string;
+    backgroundColor: string;
+    textColor: 'light' | 'dark';
+    /** Only moderators can pick this flair. */
+    modOnly: boolean;
+};
+
+export type SearchSort = 'relevance' | 'hot' | 'top' | 'new' | 'comments';
+
+export type SearchSyntax = 'cloudsearch' | 'lucene' | 'plain';
+
+export type SearchOptions = {
+    query: string;
+    /** Defaults to `relevance`. */
+    sort?: SearchSort;
+    /** The period to search in, defaults to `all`. */
+    time?: TimeFilter;
+    /** The query syntax, defaults to `lucene`. */
+    syntax?: SearchSyntax;
+};
+
+export type TransportRequest = {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+};
+
+export type TransportResponse = {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+};
+
+/**
+ * Sends a single HTTP request and resolves with the raw response.
+ * Swap this out to route requests through a proxy or an in-memory fake.
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+export type CacheEntry = {
+    /** The raw response body. */
+    body: string;
+    /** When the entry goes stale, in milliseconds since the epoch. */
+    expires: number;
+};
+
+/**
+ * Where cached responses are kept, the methods may be async so e.g. Redis can back the cache.
+ */
+export type CacheStore = {
+    get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+    set(key: string, entry: CacheEntry): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+    keys(): Iterable<string> | Promise<Iterable<string>>;
+};
+
+export type RequestOptions = {
+    method?: string;
+    headers?: Record<string, string>;
+    query?: Record<string, any>;
+    /** Sent as an `application/x-www-form-urlencoded` body. */
+    form?: Record<string, any>;
+    body?: string;
+    /** The OAuth scope the endpoint needs, the request fails with an `InsufficientScopeError` if the token wasn't granted it. */
+    scope?: OAuthScope;
+    /** Whether the response may be answered from and saved to `SnooWrapped.cache`, only set this on requests that read. */
+    cache?: boolean;
+};
+
+/**
+ * A single "thing" as Reddit returns it, e.g. `{ kind: 't1', data: { ... } }`.
+ */
+export type RawThing<Kind extends string = string, Data = any> = {
+    kind: Kind;
+    data: Data;
+};
+
+/**
+ * Reddit's paginated envelope around a list of things.
+ */
+export type RawListing<Child extends RawThing = RawThing> = {
+    kind: 'Listing';
+    data: {
+        after: string | null;
+        before: string | null;
+        dist?: number | null;
+        children: Child[];
+    };
+};
+
+/**
+ * The envelope Reddit uses for responses to requests sent with `api_type=json`.
+ */
+export type RawJsonResponse<Data = unknown> = {
+    json: {
+        errors: [string, string, string?][];
+        data: Data;
+    };
+};
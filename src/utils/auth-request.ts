@@ -0,0 +1,64 @@
+import { URL, URLSearchParams } from 'url';
+import { AuthenticationError } from '../errors/authentication-error';
+import { InvalidGrantError } from '../errors/invalid-grant-error';
+import { Transport } from '../types';
+import { AccessToken } from './token-manager';
+
+export type AuthRequestOptions = {
+    transport: Transport;
+    authBaseUrl: string;
+    userAgent: string;
+    clientId: string;
+    /** Installed apps don't have a secret. */
+    clientSecret?: string;
+};
+
+export type RawTokenResponse = {
+    access_token: string;
+    refresh_token?: string;
+    expires_in: number;
+    scope: string | string[];
+};
+
+/**
+ * Sends a request to one of Reddit's OAuth endpoints, authenticating as the app with HTTP basic auth.
+ */
+export async function authRequest<T = any> ({ transport, authBaseUrl, userAgent, clientId, clientSecret = '' }: AuthRequestOptions, endpoint: string, form: Record<string, string | undefined>): Promise<T> {
+    // Build headers
+    const headers = {
+        'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+        'User-Agent': userAgent,
+        'Content-Type': 'application/x-www-form-urlencoded'
+    };
+
+    // Build body
+    const body = new URLSearchParams();
+    Object.entries(form).forEach(([key, value]) => {
+        if (value !== undefined) body.append(key, value);
+    });
+
+    // Send request
+    const url = new URL(endpoint, authBaseUrl);
+    const { status, body: rawBody } = await transport({ method: 'POST', url: url.href, headers, body: body.toString() });
+    const response = rawBody ? JSON.parse(rawBody) : {};
+
+    // Check for errors
+    if (response.error === 'invalid_grant') throw new InvalidGrantError(status, endpoint, rawBody);
+    if (response.error_description !== undefined) throw new AuthenticationError(`Reddit returned an error: ${response.error}: ${response.error_description}`, status, endpoint, rawBody);
+    if (response.error !== undefined) throw new AuthenticationError(`Reddit returned an error: ${response.error}`, status, endpoint, rawBody);
+    if (status >= 400) throw new AuthenticationError(`Reddit returned an error: ${status}`, status, endpoint, rawBody);
+
+    return response;
+};
+
+/**
+ * Maps the token Reddit returns from `api/v1/access_token`.
+ */
+export function tokenFromResponse (response: RawTokenResponse): Required<AccessToken> & { refreshToken?: string; } {
+    return {
+        accessToken: response.access_token,
+        refreshToken: response.refresh_token,
+        tokenExpiration: new Date(Date.now() + (response.expires_in * 1000)),
+        scope: typeof response.scope === 'string' ? response.scope.split(' ') : response.scope
+    };
+};
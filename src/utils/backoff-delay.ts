@@ -0,0 +1,16 @@
+/**
+ * Works out how many milliseconds to wait before retrying a request.
+ * A `Retry-After` header takes priority, otherwise the delay doubles with each attempt with some jitter added.
+ */
+export function backoffDelay (attempt: number, base: number, retryAfter?: string) {
+    if (retryAfter !== undefined) {
+        const seconds = Number(retryAfter);
+        if (!Number.isNaN(seconds)) return seconds * 1000;
+
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    const delay = base * (2 ** (attempt - 1));
+    return (delay / 2) + (Math.random() * delay / 2);
+};
@@ -0,0 +1,41 @@
+import { Comment } from '../objects/comment';
+import { LiveThread } from '../objects/live-thread';
+import { LiveUpdate } from '../objects/live-update';
+import { ModAction } from '../objects/mod-action';
+import { MultiReddit } from '../objects/multi-reddit';
+import { PrivateMessage } from '../objects/private-message';
+import { RedditContent } from '../objects/reddit-content';
+import { RedditUser } from '../objects/reddit-user';
+import { Submission } from '../objects/submission';
+import { Subreddit } from '../objects/subreddit';
+import { SnooWrapped } from '../snoo-wrapped';
+import { RawThing } from '../types';
+
+/**
+* Creates the matching object for a raw thing based on its kind.
+* Returns `undefined` for kinds we don't have a class for.
+*/
+export function createContent (thing: RawThing, snooWrapped: SnooWrapped): RedditContent | undefined {
+    switch (thing.kind) {
+        case 't1':
+            return Comment.fromRaw(thing.data, snooWrapped);
+        case 't2':
+            return RedditUser.fromRaw(thing.data, snooWrapped);
+        case 't3':
+            return Submission.fromRaw(thing.data, snooWrapped);
+        case 't4':
+            return PrivateMessage.fromRaw(thing.data, snooWrapped);
+        case 't5':
+            return Subreddit.fromRaw(thing.data, snooWrapped);
+        case 'LiveUpdateEvent':
+            return LiveThread.fromRaw(thing.data, snooWrapped);
+        case 'LiveUpdate':
+            return LiveUpdate.fromRaw(thing.data, snooWrapped);
+        case 'modaction':
+            return ModAction.fromRaw(thing.data, snooWrapped);
+        case 'LabeledMulti':
+            return MultiReddit.fromRaw(thing.data, snooWrapped);
+        default:
+            return undefined;
+    }
+};
@@ -0,0 +1,27 @@
+import { AuthenticationError } from '../errors/authentication-error';
+import { ForbiddenError } from '../errors/forbidden-error';
+import { NotFoundError } from '../errors/not-found-error';
+import { RateLimitError } from '../errors/rate-limit-error';
+import { RedditRequestError } from '../errors/reddit-request-error';
+import { TransportResponse } from '../types';
+import { backoffDelay } from './backoff-delay';
+
+/**
+ * Creates the matching error for a response with a 4xx or 5xx status code.
+ */
+export function errorFromResponse ({ status, headers, body }: TransportResponse, endpoint: string) {
+    switch (status) {
+        case 401:
+            return new AuthenticationError('401 Unauthorized', status, endpoint, body);
+        case 403:
+            return new ForbiddenError(endpoint, body);
+        case 404:
+            return new NotFoundError(endpoint, body);
+        case 429: {
+            const retryAfter = headers['retry-after'] ?? headers['x-ratelimit-reset'];
+            return new RateLimitError(new Date(Date.now() + (retryAfter === undefined ? 0 : backoffDelay(1, 0, retryAfter))), endpoint, body);
+        }
+        default:
+            return new RedditRequestError(`Reddit returned an error: ${status}`, status, endpoint, body);
+    }
+};
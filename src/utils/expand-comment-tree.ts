@@ -0,0 +1,30 @@
+import { Comment } from '../objects/comment';
+import { MoreComments } from '../objects/more-comments';
+
+/**
+* Expands the "load more comments" placeholders in a comment tree, depth first.
+* @param depth How many levels of the tree to expand.
+* @param budget How many placeholders may still be expanded, shared across the whole tree.
+*/
+export async function expandCommentTree (comments: Comment[], more: MoreComments | undefined, depth: number, budget: { remaining: number; }): Promise<{ comments: Comment[]; more?: MoreComments; }> {
+    if (depth < 1) return { comments, more };
+
+    // Expand the placeholder at this level first
+    const allComments = [...comments];
+    let remaining = more;
+    while (remaining && budget.remaining > 0) {
+        budget.remaining--;
+        const expanded = await remaining.expand();
+        allComments.push(...expanded.comments);
+        remaining = expanded.more;
+    }
+
+    // Then work down through the replies
+    const expandedComments: Comment[] = [];
+    for (const comment of allComments) {
+        const replies = await expandCommentTree(comment.replies ?? [], comment.moreReplies, depth - 1, budget);
+        expandedComments.push(comment.withReplies(replies.comments, replies.more));
+    }
+
+    return { comments: expandedComments, more: remaining };
+};
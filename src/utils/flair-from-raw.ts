@@ -0,0 +1,13 @@
+import { Flair } from '../types';
+
+/**
+ * Maps the `*_flair_*` fields Reddit returns on posts and comments, returning `undefined` when there's no flair.
+ */
+export function flairFromRaw (text?: string | null, cssClass?: string | null, templateId?: string | null): Flair | undefined {
+    if (!text && !cssClass && !templateId) return undefined;
+    return {
+        text: text ?? undefined,
+        cssClass: cssClass ?? undefined,
+        templateId: templateId ?? undefined
+    };
+};
@@ -0,0 +1,7 @@
+/**
+ * Formats permissions the way Reddit expects them, e.g. `-all,+posts,+wiki`.
+ * Leaving them out grants every permission.
+ */
+export function formatPermissions (permissions?: string[]) {
+    return permissions ? ['-all', ...permissions.map(permission => `+${permission}`)].join(',') : '+all';
+};
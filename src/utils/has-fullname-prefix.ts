@@ -1,7 +1,7 @@
 /**
  * Determines whether a string is a "fullname".
- * A "fullname" starts with "t1_", "t2_", ... "t8_", or "LiveUpdateEvent_".
+ * A "fullname" starts with "t1_", "t2_", ... "t8_", "LiveUpdateEvent_" or "LiveUpdate_".
  */
 export function hasFullnamePrefix (item: string): boolean {
-    return /^(t\d|LiveUpdateEvent)_/.test(item);
+    return /^(t\d|LiveUpdateEvent|LiveUpdate)_/.test(item);
 };
@@ -0,0 +1,58 @@
+import { SnooWrapped } from '../snoo-wrapped';
+import { RawListing, RawThing } from '../types';
+
+type PendingLoad = {
+    resolve: (thing: RawThing | undefined) => void;
+    reject: (error: unknown) => void;
+};
+
+/**
+ * Merges lookups made in the same tick into as few `api/info` requests as possible.
+ */
+export class InfoBatcher {
+    #snooWrapped: SnooWrapped;
+    #batchSize: number;
+    #pending = new Map<string, PendingLoad[]>();
+    #isScheduled = false;
+
+    /**
+     * @param snooWrapped The instance to send requests with.
+     * @param batchSize How many fullnames to look up per request, Reddit allows at most 100.
+     */
+    constructor(snooWrapped: SnooWrapped, batchSize = 100) {
+        this.#snooWrapped = snooWrapped;
+        this.#batchSize = batchSize;
+    }
+
+    /**
+     * Looks up a thing by its fullname, resolving with `undefined` if Reddit doesn't know it.
+     */
+    load(name: string) {
+        return new Promise<RawThing | undefined>((resolve, reject) => {
+            this.#pending.set(name, [...this.#pending.get(name) ?? [], { resolve, reject }]);
+
+            if (this.#isScheduled) return;
+            this.#isScheduled = true;
+            setImmediate(() => this._flush());
+        });
+    }
+
+    private async _flush() {
+        const pending = this.#pending;
+        this.#pending = new Map();
+        this.#isScheduled = false;
+
+        const names = [...pending.keys()];
+        const batches = Array.from({ length: Math.ceil(names.length / this.#batchSize) }, (_, index) => names.slice(index * this.#batchSize, (index + 1) * this.#batchSize));
+
+        await Promise.all(batches.map(async batch => {
+            try {
+                const { data }: RawListing = await this.#snooWrapped.oauthRequest('api/info/', { scope: 'read', cache: true, query: { id: batch.join(',') } });
+                const things = new Map(data.children.map(thing => [thing.data.name as string, thing]));
+                batch.forEach(name => pending.get(name)!.forEach(({ resolve }) => resolve(things.get(name))));
+            } catch (error) {
+                batch.forEach(name => pending.get(name)!.forEach(({ reject }) => reject(error)));
+            }
+        }));
+    }
+}
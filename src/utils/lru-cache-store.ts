@@ -0,0 +1,44 @@
+import { CacheEntry, CacheStore } from '../types';
+
+/**
+ * An in-memory cache store that forgets the least recently used entry once full.
+ */
+export class LruCacheStore implements CacheStore {
+    #entries = new Map<string, CacheEntry>();
+    #maxEntries: number;
+
+    /**
+     * @param maxEntries The most entries to keep.
+     */
+    constructor(maxEntries = 500) {
+        this.#maxEntries = maxEntries;
+    }
+
+    get size() {
+        return this.#entries.size;
+    }
+
+    get(key: string) {
+        const entry = this.#entries.get(key);
+        if (!entry) return undefined;
+
+        // Move the entry to the back of the queue
+        this.#entries.delete(key);
+        this.#entries.set(key, entry);
+        return entry;
+    }
+
+    set(key: string, entry: CacheEntry) {
+        this.#entries.delete(key);
+        this.#entries.set(key, entry);
+        if (this.#entries.size > this.#maxEntries) this.#entries.delete(this.#entries.keys().next().value);
+    }
+
+    delete(key: string) {
+        this.#entries.delete(key);
+    }
+
+    keys() {
+        return [...this.#entries.keys()];
+    }
+}
@@ -0,0 +1,19 @@
+import fetch from 'node-fetch';
+import { Transport } from '../types';
+
+/**
+ * The default transport, sends each request over the network with node-fetch.
+ */
+export const nodeFetchTransport: Transport = async ({ method, url, headers, body }) => {
+    const response = await fetch(url, { method, headers, body });
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+    });
+
+    return {
+        status: response.status,
+        headers: responseHeaders,
+        body: await response.text()
+    };
+};
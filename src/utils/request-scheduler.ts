@@ -0,0 +1,113 @@
+import { RateLimitError } from '../errors/rate-limit-error';
+import { TransportResponse } from '../types';
+import { sleep } from './sleep';
+
+export type RateLimit = {
+    /** Requests left in the current period. */
+    remaining: number;
+    /** Requests made in the current period. */
+    used: number;
+    /** When the current period ends. */
+    reset: Date;
+};
+
+export type RequestSchedulerOptions = {
+    /** Wait for the ratelimit to reset instead of throwing a `RateLimitError`. */
+    continueAfterRatelimitError?: boolean;
+    /** The most requests that may be in flight at once. */
+    concurrency?: number;
+};
+
+/**
+ * Queues requests so they stay within Reddit's ratelimit and the configured concurrency.
+ */
+export class RequestScheduler {
+    #continueAfterRatelimitError: boolean;
+    #concurrency: number;
+    #active = 0;
+    #queue: (() => void)[] = [];
+    #ratelimit?: RateLimit;
+
+    constructor({ continueAfterRatelimitError = false, concurrency = Infinity }: RequestSchedulerOptions = {}) {
+        this.#continueAfterRatelimitError = continueAfterRatelimitError;
+        this.#concurrency = concurrency;
+    }
+
+    /**
+     * The ratelimit state from the most recent response, if there's been one.
+     */
+    get ratelimit() {
+        return this.#ratelimit ? { ...this.#ratelimit } : undefined;
+    }
+
+    /**
+     * Runs a request once there's both a free slot and ratelimit budget left for it.
+     * @param endpoint The endpoint the request is for, used in errors.
+     */
+    async schedule(endpoint: string, request: () => Promise<TransportResponse>) {
+        await this._acquire();
+        try {
+            await this._waitForRatelimit(endpoint);
+            const response = await request();
+            this.update(response.headers);
+            return response;
+        } finally {
+            this._release();
+        }
+    }
+
+    /**
+     * Records the ratelimit state from a response's `x-ratelimit-*` headers.
+     */
+    update(headers: Record<string, string>) {
+        const remaining = headers['x-ratelimit-remaining'];
+        const used = headers['x-ratelimit-used'];
+        const reset = headers['x-ratelimit-reset'];
+        if (remaining === undefined || used === undefined || reset === undefined) return;
+
+        this.#ratelimit = {
+            remaining: Number(remaining),
+            used: Number(used),
+            reset: new Date(Date.now() + (Number(reset) * 1000))
+        };
+    }
+
+    private async _waitForRatelimit(endpoint: string): Promise<void> {
+        const ratelimit = this.#ratelimit;
+        if (!ratelimit) return;
+
+        // A new period has started since the last response
+        if (Date.now() >= ratelimit.reset.getTime()) {
+            this.#ratelimit = undefined;
+            return;
+        }
+
+        if (ratelimit.remaining >= 1) {
+            // Count this request against the budget before its response comes back
+            ratelimit.remaining -= 1;
+            ratelimit.used += 1;
+            return;
+        }
+
+        if (!this.#continueAfterRatelimitError) throw new RateLimitError(ratelimit.reset, endpoint);
+
+        await sleep(ratelimit.reset.getTime() - Date.now());
+        return this._waitForRatelimit(endpoint);
+    }
+
+    private async _acquire() {
+        if (this.#active < this.#concurrency) {
+            this.#active++;
+            return;
+        }
+
+        // The slot is handed over directly by _release
+        await new Promise<void>(resolve => this.#queue.push(resolve));
+    }
+
+    private _release() {
+        const next = this.#queue.shift();
+        if (next) return next();
+        this.#active--;
+    }
+}
@@ -0,0 +1,102 @@
+import { URL } from 'url';
+import { CacheStore } from '../types';
+import { LruCacheStore } from './lru-cache-store';
+
+export type ResponseCacheOptions = {
+    /** Where responses are kept, defaults to an in-memory LRU store. */
+    store?: CacheStore;
+    /** How many milliseconds a response stays fresh, defaults to 1 minute. */
+    ttl?: number;
+    /**
+     * TTLs for specific resources, keyed by the start of their path, e.g. `{ 'user/': 300_000, 'api/info': 0 }`.
+     * The longest matching key wins and a TTL of 0 turns caching off.
+     */
+    resourceTtls?: Record<string, number>;
+};
+
+/**
+ * Caches the responses to GET requests that opt in with `cache: true`, keyed by method and URL.
+ */
+export class ResponseCache {
+    public readonly store: CacheStore;
+    #baseUrl: string;
+    #ttl: number;
+    #resourceTtls: [string, number][];
+    #hits = 0;
+    #misses = 0;
+
+    /**
+     * @param baseUrl The URL paths are relative to.
+     */
+    constructor(baseUrl: string, { store = new LruCacheStore(), ttl = 60_000, resourceTtls = {} }: ResponseCacheOptions = {}) {
+        this.store = store;
+        this.#baseUrl = baseUrl;
+        this.#ttl = ttl;
+        // Longest prefix first so the most specific TTL is found first
+        this.#resourceTtls = Object.entries(resourceTtls).sort(([a], [b]) => b.length - a.length);
+    }
+
+    /**
+     * How many lookups were answered from the cache and how many had to hit the network.
+     */
+    get stats() {
+        return { hits: this.#hits, misses: this.#misses };
+    }
+
+    /**
+     * Gets the cached body for a request, if there's a fresh one.
+     */
+    async get(method: string, url: URL) {
+        if (!this._isCacheable(method, url)) return undefined;
+
+        const key = `${method} ${url.href}`;
+        const entry = await this.store.get(key);
+        if (entry && entry.expires > Date.now()) {
+            this.#hits++;
+            return entry.body;
+        }
+
+        if (entry) await this.store.delete(key);
+        this.#misses++;
+        return undefined;
+    }
+
+    async set(method: string, url: URL, body: string) {
+        if (!this._isCacheable(method, url)) return;
+        await this.store.set(`${method} ${url.href}`, { body, expires: Date.now() + this._ttlFor(url) });
+    }
+
+    /**
+     * Drops the cached responses for a path, including those with extra query parameters
+     * and batched lookups such as `api/info/?id=t3_a,t3_b` when invalidating `api/info/?id=t3_a`.
+     * @example await sW.cache.invalidate('user/OmgImAlexis/about');
+     */
+    async invalidate(uri: string) {
+        const target = new URL(uri, this.#baseUrl);
+        const keys = [...await this.store.keys()].filter(key => this._matches(new URL(key.slice(key.indexOf(' ') + 1)), target));
+        await Promise.all(keys.map(key => this.store.delete(key)));
+    }
+
+    /**
+     * Drops every cached response.
+     */
+    async clear() {
+        const keys = [...await this.store.keys()];
+        await Promise.all(keys.map(key => this.store.delete(key)));
+    }
+
+    private _matches(url: URL, target: URL) {
+        if (url.origin !== target.origin || url.pathname !== target.pathname) return false;
+        return [...target.searchParams].every(([key, value]) => (url.searchParams.get(key) ?? '').split(',').includes(value));
+    }
+
+    private _isCacheable(method: string, url: URL) {
+        return method.toUpperCase() === 'GET' && this._ttlFor(url) > 0;
+    }
+
+    private _ttlFor(url: URL) {
+        const path = url.href.slice(new URL(this.#baseUrl).href.length);
+        const match = this.#resourceTtls.find(([prefix]) => path.startsWith(prefix));
+        return match ? match[1] : this.#ttl;
+    }
+}
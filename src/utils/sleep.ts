@@ -0,0 +1,16 @@
+/**
+ * Resolves after a given number of milliseconds, or as soon as the signal aborts.
+ */
+export function sleep (ms: number, signal?: AbortSignal) {
+    return new Promise<void>(resolve => {
+        if (signal?.aborted) return resolve();
+
+        const done = () => {
+            clearTimeout(timeout);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timeout = setTimeout(done, ms);
+        signal?.addEventListener('abort', done);
+    });
+};
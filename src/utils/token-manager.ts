@@ -0,0 +1,151 @@
+import { SnooWrapped } from '../snoo-wrapped';
+import { OAuthScope } from '../types';
+import { authRequest, RawTokenResponse, tokenFromResponse } from './auth-request';
+
+export type AccessToken = {
+    accessToken: string;
+    tokenExpiration?: Date;
+    scope?: string[];
+};
+
+/**
+ * Keeps track of a SnooWrapped instance's access token and refreshes it when needed.
+ * Concurrent callers share a single refresh request.
+ */
+export class TokenManager {
+    #snooWrapped: SnooWrapped;
+    #refreshMargin: number;
+    #accessToken?: string;
+    #tokenExpiration?: Date;
+    #scope?: string[];
+    #pendingRefresh?: Promise<string>;
+
+    /**
+     * @param snooWrapped The instance to refresh tokens for.
+     * @param refreshMargin How many milliseconds before the token expires it should be renewed.
+     */
+    constructor(snooWrapped: SnooWrapped, refreshMargin = 60_000) {
+        this.#snooWrapped = snooWrapped;
+        this.#refreshMargin = refreshMargin;
+    }
+
+    get accessToken() {
+        return this.#accessToken;
+    }
+
+    get tokenExpiration() {
+        return this.#tokenExpiration;
+    }
+
+    get scope() {
+        return this.#scope;
+    }
+
+    /**
+     * Whether the current token was granted a scope.
+     * Tokens we don't know the scopes of, e.g. ones passed in as `accessToken`, are assumed to have every scope.
+     */
+    hasScope(scope: OAuthScope) {
+        if (!this.#scope) return true;
+        return this.#scope.includes('*') || this.#scope.includes(scope);
+    }
+
+    /**
+     * Whether a new token can be requested with the credentials we were given.
+     */
+    get canRefresh() {
+        const { clientId, clientSecret, refreshToken, username, password, grantType } = this.#snooWrapped.credentials;
+        if (clientId === undefined) return false;
+        if (grantType === 'installed_client') return true;
+        return clientSecret !== undefined && (refreshToken !== undefined || (username !== undefined && password !== undefined) || grantType === 'client_credentials');
+    }
+
+    /**
+     * Whether the current token is missing or will expire within the refresh margin.
+     */
+    get needsRefresh() {
+        if (!this.#accessToken) return true;
+        if (!this.#tokenExpiration) return false;
+        return Date.now() > this.#tokenExpiration.getTime() - this.#refreshMargin;
+    }
+
+    /**
+     * Saves a token, e.g. one that was persisted from a previous session.
+     */
+    setToken({ accessToken, tokenExpiration, scope }: AccessToken) {
+        this.#accessToken = accessToken;
+        this.#tokenExpiration = tokenExpiration;
+        this.#scope = scope;
+    }
+
+    /**
+     * Forgets the current token, a new one is requested on the next request if the credentials allow it.
+     */
+    clearToken() {
+        this.#accessToken = undefined;
+        this.#tokenExpiration = undefined;
+        this.#scope = undefined;
+    }
+
+    /**
+     * Resolves with a usable access token, refreshing it first if it's missing or about to expire.
+     */
+    async getAccessToken() {
+        if (this.needsRefresh && this.canRefresh) return this.refresh();
+        return this.#accessToken;
+    }
+
+    /**
+     * Requests a new access token.
+     * If a refresh is already in flight the same promise is returned.
+     */
+    refresh() {
+        if (!this.#pendingRefresh) {
+            this.#pendingRefresh = this._requestToken().finally(() => {
+                this.#pendingRefresh = undefined;
+            });
+        }
+
+        return this.#pendingRefresh;
+    }
+
+    /**
+     * Revokes a token so it can't be used anymore.
+     * Revoking a refresh token also revokes the access tokens that were created with it.
+     */
+    async revoke(token: string, tokenTypeHint: 'access_token' | 'refresh_token') {
+        await authRequest(this._authRequestOptions(), 'api/v1/revoke_token', { token, token_type_hint: tokenTypeHint });
+        this.clearToken();
+    }
+
+    private async _requestToken() {
+        const { refreshToken, username, password, grantType, deviceId } = this.#snooWrapped.credentials;
+
+        // Pick the grant for the credentials we were given
+        const grant = refreshToken ? { grant_type: 'refresh_token', refresh_token: refreshToken }
+            : username ? { grant_type: 'password', username, password }
+            : grantType === 'installed_client' ? { grant_type: 'https://oauth.reddit.com/grants/installed_client', device_id: deviceId }
+            : { grant_type: 'client_credentials' };
+
+        // Send request
+        const response = await authRequest<RawTokenResponse>(this._authRequestOptions(), 'api/v1/access_token', { scope: this.#snooWrapped.requestedScopes.join(' '), ...grant });
+
+        // Save access token
+        this.setToken(tokenFromResponse(response));
+
+        // Let listeners persist the new token
+        this.#snooWrapped.emit('tokenRefreshed', {
+            accessToken: this.#accessToken,
+            tokenExpiration: this.#tokenExpiration,
+            scope: this.#scope
+        });
+
+        // Return the newly saved token
+        return response.access_token;
+    }
+
+    private _authRequestOptions() {
+        const { transport, authBaseUrl, userAgent, credentials: { clientId, clientSecret } } = this.#snooWrapped;
+        return { transport, authBaseUrl, userAgent, clientId: clientId as string, clientSecret };
+    }
+}
@@ -0,0 +1,68 @@
+import { URL, URLSearchParams } from 'url';
+import { Transport, TransportRequest, TransportResponse } from '../../src/types';
+
+export type FakeRequest = TransportRequest & {
+    path: string;
+    query: Record<string, string>;
+    form: Record<string, string>;
+};
+
+type Handler = (request: FakeRequest) => unknown | Promise<unknown>;
+
+/**
+ * Wraps a JSON body in a response so a handler can control the status and headers.
+ */
+export const reply = (status: number, body: unknown = {}, headers: Record<string, string> = {}): TransportResponse => ({
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+});
+
+const isResponse = (value: unknown): value is TransportResponse => typeof value === 'object' && value !== null && 'status' in value && 'body' in value && 'headers' in value;
+
+/**
+ * An in-memory stand-in for Reddit.
+ * Register handlers with `on()` and pass `transport` to the SnooWrapped constructor.
+ */
+export class FakeReddit {
+    public readonly requests: FakeRequest[] = [];
+    private routes = new Map<string, Handler>();
+
+    constructor() {
+        this.on('POST', '/api/v1/access_token', () => ({
+            access_token: 'THIS_IS_A_FAKE_ACCESS_TOKEN_USED_FOR_TESTS',
+            token_type: 'bearer',
+            expires_in: 3600,
+            scope: '*'
+        }));
+    }
+
+    on(method: string, path: string, handler: Handler) {
+        this.routes.set(`${method} ${path}`, handler);
+        return this;
+    }
+
+    /**
+     * Requests that were sent to a given path.
+     */
+    requestsTo(path: string) {
+        return this.requests.filter(request => request.path === path);
+    }
+
+    transport: Transport = async request => {
+        const url = new URL(request.url);
+        const fakeRequest: FakeRequest = {
+            ...request,
+            path: url.pathname,
+            query: Object.fromEntries(url.searchParams.entries()),
+            form: Object.fromEntries(new URLSearchParams(request.body ?? '').entries())
+        };
+        this.requests.push(fakeRequest);
+
+        const handler = this.routes.get(`${request.method} ${url.pathname}`);
+        if (!handler) return reply(404, { message: 'Not Found', error: 404 });
+
+        const result = await handler(fakeRequest);
+        return isResponse(result) ? result : reply(200, result);
+    };
+}
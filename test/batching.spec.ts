@@ -0,0 +1,83 @@
+import ava, { TestInterface } from 'ava';
+import { InvalidFullnameError } from '../src/errors/invalid-fullname-error';
+import { Comment } from '../src/objects/comment';
+import { Submission } from '../src/objects/submission';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const thing = (name: string) => name.startsWith('t1_')
+    ? { kind: 't1', data: { name, author: 'OmgImAlexis', subreddit: 'snoowrap', link_id: 't3_abc', body: name, replies: '' } }
+    : { kind: 't3', data: { name, author: 'OmgImAlexis', subreddit: 'snoowrap', title: name } };
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    // Answers in a different order to the request, like Reddit does, leaving out anything starting with "t3_gone"
+    fakeReddit.on('GET', '/api/info/', ({ query }) => ({
+        kind: 'Listing',
+        data: { after: null, before: null, children: query.id.split(',').filter(name => !name.startsWith('t3_gone')).reverse().map(thing) }
+    }));
+    fakeReddit.on('GET', '/comments/abc', () => [
+        { kind: 'Listing', data: { after: null, before: null, children: [thing('t3_abc')] } },
+        { kind: 'Listing', data: { after: null, before: null, children: [] } }
+    ]);
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('getContentByIds() returns typed objects in input order', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const items = await snooWrapped.getContentByIds(['t3_abc', snooWrapped.getComment('def'), 't3_gone', 't1_ghi']);
+
+    t.deepEqual(items.map(item => item.name), ['t3_abc', 't1_def', 't1_ghi']);
+    t.true(items[0] instanceof Submission);
+    t.true(items[1] instanceof Comment);
+    t.deepEqual(fakeReddit.requestsTo('/api/info/').map(({ query }) => query.id), ['t3_abc,t1_def,t3_gone,t1_ghi']);
+});
+
+test('getContentByIds() sends 100 fullnames per request', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const names = Array.from({ length: 250 }, (_, index) => `t1_${index.toString(36)}`);
+
+    const items = await snooWrapped.getContentByIds(names);
+
+    t.deepEqual(items.map(item => item.name), names);
+    t.deepEqual(fakeReddit.requestsTo('/api/info/').map(({ query }) => query.id.split(',').length), [100, 100, 50]);
+});
+
+test('getContentByIds() rejects ids without a prefix', async t => {
+    const { snooWrapped } = t.context;
+
+    await t.throwsAsync<InvalidFullnameError>(snooWrapped.getContentByIds(['abc']), { instanceOf: InvalidFullnameError });
+});
+
+test('concurrent fetch() calls are merged into one request', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const [submission, first, second, again] = await Promise.all([
+        snooWrapped.getSubmission('abc').fetch(),
+        snooWrapped.getComment('def').fetch(),
+        snooWrapped.getComment('ghi').fetch(),
+        snooWrapped.getComment('def').fetch()
+    ]);
+
+    t.true(submission instanceof Submission);
+    t.is(first.body, 't1_def');
+    t.is(second.body, 't1_ghi');
+    t.is(again.body, 't1_def');
+    t.deepEqual(fakeReddit.requestsTo('/api/info/').map(({ query }) => query.id), ['t3_abc,t1_def,t1_ghi']);
+});
+
+test('fetch() of something that doesn\'t exist resolves with undefined', async t => {
+    const { snooWrapped } = t.context;
+
+    t.is(await snooWrapped.getSubmission('gone').fetch(), undefined);
+});
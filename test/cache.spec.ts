@@ -0,0 +1,168 @@
+import ava, { TestInterface } from 'ava';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { CacheEntry } from '../src/types';
+import { LruCacheStore } from '../src/utils/lru-cache-store';
+import { sleep } from '../src/utils/sleep';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+}>;
+
+const submission = { kind: 't3', data: { name: 't3_abc', author: 'OmgImAlexis', subreddit: 'snoowrap', title: 'A post', locked: false } };
+const listing = (children: unknown[]) => ({ kind: 'Listing', data: { after: null, before: null, children } });
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => ({ kind: 't2', data: { name: 'OmgImAlexis', link_karma: 6 } }));
+    fakeReddit.on('GET', '/r/snoowrap/about', () => ({ kind: 't5', data: { display_name: 'snoowrap', title: 'snoowrap' } }));
+    fakeReddit.on('GET', '/api/info/', () => listing([submission]));
+    fakeReddit.on('GET', '/comments/abc', () => [listing([submission]), listing([])]);
+    fakeReddit.on('POST', '/api/lock', () => ({}));
+    t.context = { fakeReddit };
+});
+
+test('responses are not cached by default', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport });
+
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+
+    t.is(snooWrapped.cache, undefined);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 2);
+});
+
+test('repeated fetches are answered from the cache', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, cache: true });
+
+    const first = await snooWrapped.getUser('OmgImAlexis').fetch();
+    const second = await snooWrapped.getUser('OmgImAlexis').fetch();
+
+    t.is(first.karma?.link, 6);
+    t.is(second.karma?.link, 6);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 1);
+    t.deepEqual(snooWrapped.cache?.stats, { hits: 1, misses: 1 });
+});
+
+test('entries expire after their TTL', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, cache: { ttl: 10 } });
+
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    await sleep(20);
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 2);
+    t.deepEqual(snooWrapped.cache?.stats, { hits: 0, misses: 2 });
+});
+
+test('resource TTLs override the default and 0 turns caching off', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({
+        ...credentials,
+        transport: fakeReddit.transport,
+        cache: { ttl: 10, resourceTtls: { 'r/': 60_000, 'user/': 0 } }
+    });
+
+    await snooWrapped.getSubreddit('snoowrap').fetch();
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    await sleep(20);
+    await snooWrapped.getSubreddit('snoowrap').fetch();
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+
+    t.is(fakeReddit.requestsTo('/r/snoowrap/about').length, 1);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 2);
+});
+
+test('writes invalidate the object\'s cached responses', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, cache: true });
+
+    const fetched = await snooWrapped.getSubmission('abc').fetch();
+    await snooWrapped.getSubmission('abc').fetch();
+    t.is(fakeReddit.requestsTo('/api/info/').length, 1);
+    t.is(fakeReddit.requestsTo('/comments/abc').length, 1);
+
+    await fetched.lock();
+    await snooWrapped.getSubmission('abc').fetch();
+
+    t.is(fakeReddit.requestsTo('/api/info/').length, 2);
+    t.is(fakeReddit.requestsTo('/comments/abc').length, 2);
+    t.is(fakeReddit.requestsTo('/api/lock').length, 1);
+});
+
+test('requests that don\'t opt in are never answered from the cache', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, cache: true });
+
+    await snooWrapped.oauthRequest('user/OmgImAlexis/about');
+    await snooWrapped.oauthRequest('user/OmgImAlexis/about');
+
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 2);
+});
+
+test('sticky() and unsticky() invalidate the Submission\'s cached responses', async t => {
+    const { fakeReddit } = t.context;
+    fakeReddit.on('POST', '/api/set_subreddit_sticky', () => ({}));
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, cache: true });
+
+    await snooWrapped.getSubmission('abc').fetch();
+    await snooWrapped.getSubmission('abc').sticky();
+    await snooWrapped.getSubmission('abc').fetch();
+    await snooWrapped.getSubmission('abc').unsticky();
+    await snooWrapped.getSubmission('abc').fetch();
+
+    t.is(fakeReddit.requestsTo('/api/set_subreddit_sticky').length, 2);
+    t.is(fakeReddit.requestsTo('/api/info/').length, 3);
+    t.is(fakeReddit.requestsTo('/comments/abc').length, 3);
+});
+
+test('a custom store can be plugged in', async t => {
+    const { fakeReddit } = t.context;
+    const entries = new Map<string, CacheEntry>();
+    const snooWrapped = new SnooWrapped({
+        ...credentials,
+        transport: fakeReddit.transport,
+        cache: {
+            store: {
+                get: async key => entries.get(key),
+                set: async (key, entry) => { entries.set(key, entry); },
+                delete: async key => { entries.delete(key); },
+                keys: async () => entries.keys()
+            }
+        }
+    });
+
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    t.deepEqual([...entries.keys()], ['GET https://oauth.reddit.com/user/OmgImAlexis/about']);
+
+    await snooWrapped.cache?.invalidate('user/OmgImAlexis/about');
+    t.is(entries.size, 0);
+});
+
+test('LruCacheStore forgets the least recently used entry', t => {
+    const store = new LruCacheStore(2);
+    const entry = { body: '{}', expires: Infinity };
+
+    store.set('a', entry);
+    store.set('b', entry);
+    store.get('a');
+    store.set('c', entry);
+
+    t.deepEqual(store.keys(), ['a', 'c']);
+    t.is(store.size, 2);
+});
+
+test('invalidating a fullname also drops batched lookups containing it', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, cache: true });
+
+    await snooWrapped.oauthRequest('api/info/', { cache: true, query: { id: 't3_abc,t1_def' } });
+    await snooWrapped.oauthRequest('api/info/', { cache: true, query: { id: 't1_ghi' } });
+    await snooWrapped.cache?.invalidate('api/info/?id=t3_abc');
+
+    t.deepEqual([...await snooWrapped.cache!.store.keys()], ['GET https://oauth.reddit.com/api/info/?id=t1_ghi']);
+});
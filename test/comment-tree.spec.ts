@@ -0,0 +1,110 @@
+import ava, { TestInterface } from 'ava';
+import { Comment } from '../src/objects/comment';
+import { MoreComments } from '../src/objects/more-comments';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const listing = (children: unknown[]) => ({ kind: 'Listing', data: { after: null, before: null, children } });
+const comment = (id: string, parentId: string, replies: unknown[] = []) => ({
+    kind: 't1',
+    data: { name: `t1_${id}`, parent_id: parentId, link_id: 't3_abc', author: 'OmgImAlexis', subreddit: 'test', body: id, replies: replies.length ? listing(replies) : '' }
+});
+const more = (id: string, parentId: string, children: string[]) => ({
+    kind: 'more',
+    data: { name: `t1_${id}`, id, parent_id: parentId, count: children.length, children }
+});
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('GET', '/api/info/', () => listing([{ kind: 't3', data: { name: 't3_abc', author: 'OmgImAlexis', subreddit: 'test' } }]));
+    fakeReddit.on('GET', '/comments/abc', () => [
+        listing([]),
+        listing([
+            comment('a', 't3_abc', [
+                comment('a1', 't1_a'),
+                more('m2', 't1_a', ['a2'])
+            ]),
+            comment('b', 't3_abc'),
+            more('m1', 't3_abc', ['c', 'd'])
+        ])
+    ]);
+    fakeReddit.on('GET', '/api/morechildren', ({ query }) => {
+        const things: Record<string, unknown[]> = {
+            'c,d': [comment('c', 't3_abc'), comment('c1', 't1_c'), more('m3', 't1_c', ['c2']), comment('d', 't3_abc')],
+            'a2': [comment('a2', 't1_a')],
+            'c2': [comment('c2', 't1_c')]
+        };
+        return { json: { errors: [], data: { things: things[query.children] } } };
+    });
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('fetch() builds the comment tree', async t => {
+    const { snooWrapped } = t.context;
+
+    const submission = await snooWrapped.getSubmission('abc').fetch();
+    t.deepEqual(submission.comments?.map(comment => comment.name), ['t1_a', 't1_b']);
+
+    const [first] = submission.comments as Comment[];
+    t.deepEqual(first.replies?.map(reply => reply.name), ['t1_a1']);
+    t.true(first.moreReplies instanceof MoreComments);
+    t.deepEqual(first.moreReplies?.children, ['a2']);
+
+    t.true(submission.moreComments instanceof MoreComments);
+    t.is(submission.moreComments?.count, 2);
+});
+
+test('MoreComments.expand() fetches the hidden comments', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const submission = await snooWrapped.getSubmission('abc').fetch();
+    const { comments, more } = await (submission.moreComments as MoreComments).expand();
+
+    t.deepEqual(comments.map(comment => comment.name), ['t1_c', 't1_d']);
+    t.deepEqual(comments[0].replies?.map(reply => reply.name), ['t1_c1']);
+    t.deepEqual(comments[0].moreReplies?.children, ['c2']);
+    t.is(more, undefined);
+
+    // Copies keep the nested placeholder
+    fakeReddit.on('POST', '/api/vote', () => ({}));
+    const upvoted = await comments[0].upvote();
+    t.deepEqual(upvoted.moreReplies?.children, ['c2']);
+
+    const [request] = fakeReddit.requestsTo('/api/morechildren');
+    t.is(request.query.link_id, 't3_abc');
+    t.is(request.query.api_type, 'json');
+});
+
+test('expandReplies() expands the whole tree', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const submission = await snooWrapped.getSubmission('abc').expandReplies({ sort: 'new' });
+    t.deepEqual(submission.comments?.map(comment => comment.name), ['t1_a', 't1_b', 't1_c', 't1_d']);
+    t.deepEqual(submission.comments?.[0].replies?.map(reply => reply.name), ['t1_a1', 't1_a2']);
+    t.is(submission.moreComments, undefined);
+
+    // The sort order is used for every request
+    t.is(fakeReddit.requestsTo('/comments/abc')[0].query.sort, 'new');
+    t.true(fakeReddit.requestsTo('/api/morechildren').every(request => request.query.sort === 'new'));
+});
+
+test('expandReplies() respects depth and limit', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const shallow = await snooWrapped.getSubmission('abc').expandReplies({ depth: 1 });
+    t.deepEqual(shallow.comments?.[0].replies?.map(reply => reply.name), ['t1_a1']);
+    t.is(fakeReddit.requestsTo('/api/morechildren').length, 1);
+
+    const limited = await snooWrapped.getSubmission('abc').expandReplies({ limit: 0 });
+    t.deepEqual(limited.comments?.map(comment => comment.name), ['t1_a', 't1_b']);
+    t.is(fakeReddit.requestsTo('/api/morechildren').length, 1);
+});
@@ -0,0 +1,94 @@
+import ava, { TestInterface } from 'ava';
+import { RedditApiError } from '../src/errors/reddit-api-error';
+import { Comment } from '../src/objects/comment';
+import { Submission } from '../src/objects/submission';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const rawComment = (name: string, body: string) => ({
+    kind: 't1',
+    data: { name, body, link_id: 't3_abc', parent_id: 't3_abc', author: 'OmgImAlexis', subreddit: 'snoowrap_testing' }
+});
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('POST', '/api/submit', ({ form }) => form.title
+        ? { json: { errors: [], data: { id: 'new', name: 't3_new', url: 'https://www.reddit.com/r/snoowrap_testing/comments/new/' } } }
+        : { json: { errors: [['NO_TEXT', 'we need something here', 'title']] } });
+    fakeReddit.on('POST', '/api/comment', ({ form }) => ({ json: { errors: [], data: { things: [rawComment('t1_reply', form.text)] } } }));
+    fakeReddit.on('POST', '/api/editusertext', ({ form }) => ({ json: { errors: [], data: { things: [rawComment(form.thing_id, form.text)] } } }));
+    fakeReddit.on('POST', '/api/del', () => ({}));
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('submitSelfpost()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const submission = await snooWrapped.getSubreddit('snoowrap_testing').submitSelfpost({ title: 'Daily thread', text: 'Discuss things here' });
+    t.true(submission instanceof Submission);
+    t.is(submission.name, 't3_new');
+    t.is(submission.title, 'Daily thread');
+    t.is(submission.body, 'Discuss things here');
+    t.is(submission.subreddit?.name, 'snoowrap_testing');
+
+    const [request] = fakeReddit.requestsTo('/api/submit');
+    t.is(request.headers['Content-Type'], 'application/x-www-form-urlencoded');
+    t.deepEqual(request.form, { api_type: 'json', sr: 'snoowrap_testing', kind: 'self', title: 'Daily thread', sendreplies: 'true', text: 'Discuss things here' });
+});
+
+test('submitLink() and submitCrosspost()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const subreddit = snooWrapped.getSubreddit('snoowrap_testing');
+
+    const link = await subreddit.submitLink({ title: 'Mt. Cameramanjaro', url: 'https://i.imgur.com/n5iOc72.gifv', nsfw: true });
+    t.is(link.url, 'https://i.imgur.com/n5iOc72.gifv');
+    t.true(link.nsfw);
+
+    await subreddit.submitCrosspost({ title: 'Look at this', originalPost: snooWrapped.getSubmission('6vths0') });
+    const [linkRequest, crosspostRequest] = fakeReddit.requestsTo('/api/submit');
+    t.is(linkRequest.form.kind, 'link');
+    t.is(linkRequest.form.nsfw, 'true');
+    t.is(crosspostRequest.form.kind, 'crosspost');
+    t.is(crosspostRequest.form.crosspost_fullname, 't3_6vths0');
+});
+
+test('submit errors are surfaced as RedditApiErrors', async t => {
+    const { snooWrapped } = t.context;
+
+    const error = await t.throwsAsync<RedditApiError>(snooWrapped.getSubreddit('snoowrap_testing').submitSelfpost({ title: '' }), { instanceOf: RedditApiError });
+    t.is(error.errors[0].code, 'NO_TEXT');
+    t.is(error.errors[0].field, 'title');
+});
+
+test('reply()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const reply = await snooWrapped.getSubmission('abc').reply('First!');
+    t.true(reply instanceof Comment);
+    t.is(reply.name, 't1_reply');
+    t.is(reply.body, 'First!');
+
+    await snooWrapped.getComment('def').reply('Second!');
+    const [, commentReply] = fakeReddit.requestsTo('/api/comment');
+    t.is(commentReply.form.thing_id, 't1_def');
+});
+
+test('edit() and delete()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const edited = await snooWrapped.getComment('def').edit('Updated');
+    t.true(edited instanceof Comment);
+    t.is(edited.body, 'Updated');
+
+    await snooWrapped.getComment('def').delete();
+    t.is(fakeReddit.requestsTo('/api/del')[0].form.id, 't1_def');
+});
@@ -0,0 +1,74 @@
+import ava, { TestInterface } from 'ava';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { NotFoundError } from '../src/errors/not-found-error';
+import { ForbiddenError } from '../src/errors/forbidden-error';
+import { RateLimitError } from '../src/errors/rate-limit-error';
+import { InvalidGrantError } from '../src/errors/invalid-grant-error';
+import { RedditApiError } from '../src/errors/reddit-api-error';
+import { RedditRequestError } from '../src/errors/reddit-request-error';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit, reply } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport, maxRetryAttempts: 0 })
+    };
+});
+
+test('404 responses throw a NotFoundError', async t => {
+    const { snooWrapped } = t.context;
+
+    const error = await t.throwsAsync<NotFoundError>(snooWrapped.getUser('THIS_IS_A_FAKE_USER_ID_USED_FOR_TESTS').fetch(), { instanceOf: NotFoundError });
+    t.is(error.status, 404);
+    t.is(error.endpoint, 'user/THIS_IS_A_FAKE_USER_ID_USED_FOR_TESTS/about');
+    t.deepEqual(JSON.parse(error.body), { message: 'Not Found', error: 404 });
+});
+
+test('403 responses throw a ForbiddenError', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/lock', () => reply(403, { message: 'Forbidden', error: 403 }));
+
+    const error = await t.throwsAsync<ForbiddenError>(snooWrapped.getSubmission('2np694').lock(), { instanceOf: ForbiddenError });
+    t.is(error.endpoint, 'api/lock');
+});
+
+test('429 responses throw a RateLimitError', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => reply(429, {}, { 'retry-after': '30' }));
+
+    const error = await t.throwsAsync<RateLimitError>(snooWrapped.getUser('OmgImAlexis').fetch(), { instanceOf: RateLimitError });
+    t.is(error.status, 429);
+    t.true(error.reset.getTime() > Date.now() + 25_000);
+});
+
+test('other error statuses throw a RedditRequestError', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => reply(500, {}));
+
+    const error = await t.throwsAsync<RedditRequestError>(snooWrapped.getUser('OmgImAlexis').fetch(), { instanceOf: RedditRequestError });
+    t.is(error.status, 500);
+});
+
+test('json.errors throw a RedditApiError', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/lock', () => ({ json: { errors: [['SUBREDDIT_NOEXIST', 'that subreddit doesn\'t exist', 'sr']] } }));
+
+    const error = await t.throwsAsync<RedditApiError>(snooWrapped.getSubmission('2np694').lock(), { instanceOf: RedditApiError });
+    t.is(error.status, 200);
+    t.deepEqual(error.errors, [{ code: 'SUBREDDIT_NOEXIST', message: 'that subreddit doesn\'t exist', field: 'sr' }]);
+});
+
+test('invalid credentials throw an InvalidGrantError', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/v1/access_token', () => ({ error: 'invalid_grant' }));
+
+    const error = await t.throwsAsync<InvalidGrantError>(snooWrapped.getUser('OmgImAlexis').fetch(), { instanceOf: InvalidGrantError });
+    t.is(error.endpoint, 'api/v1/access_token');
+});
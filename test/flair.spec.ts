@@ -0,0 +1,130 @@
+import ava, { TestInterface } from 'ava';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const template = { id: 'fdafe2c2', text: 'Discussion', text_editable: true, css_class: 'discussion', background_color: '#0079d3', text_color: 'light', mod_only: false };
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('flair fields are exposed on Submissions and their authors', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const submission = {
+        name: 't3_2np694',
+        author: 'OmgImAlexis',
+        subreddit: 'snoowrap_testing',
+        title: 'A post',
+        link_flair_text: 'Discussion',
+        link_flair_css_class: 'discussion',
+        link_flair_template_id: 'fdafe2c2',
+        author_flair_text: 'Maintainer',
+        author_flair_css_class: null,
+        author_flair_template_id: null
+    };
+    fakeReddit.on('GET', '/api/info/', () => ({ kind: 'Listing', data: { after: null, before: null, children: [{ kind: 't3', data: submission }] } }));
+    fakeReddit.on('GET', '/comments/2np694', () => [
+        { kind: 'Listing', data: { after: null, before: null, children: [{ kind: 't3', data: submission }] } },
+        { kind: 'Listing', data: { after: null, before: null, children: [] } }
+    ]);
+
+    const fetched = await snooWrapped.getSubmission('2np694').fetch();
+
+    t.deepEqual(fetched.flair, { text: 'Discussion', cssClass: 'discussion', templateId: 'fdafe2c2' });
+    t.deepEqual(fetched.author?.flair, { text: 'Maintainer', cssClass: undefined, templateId: undefined });
+});
+
+test('getUserFlairTemplates() and getLinkFlairTemplates()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/snoowrap_testing/api/user_flair_v2', () => [{ ...template, text: 'Contributor' }]);
+    fakeReddit.on('GET', '/r/snoowrap_testing/api/link_flair_v2', () => [template]);
+    const subreddit = snooWrapped.getSubreddit('snoowrap_testing');
+
+    const [userTemplate] = await subreddit.getUserFlairTemplates();
+    const [linkTemplate] = await subreddit.getLinkFlairTemplates();
+
+    t.is(userTemplate.text, 'Contributor');
+    t.deepEqual(linkTemplate, {
+        id: 'fdafe2c2',
+        text: 'Discussion',
+        textEditable: true,
+        cssClass: 'discussion',
+        backgroundColor: '#0079d3',
+        textColor: 'light',
+        modOnly: false
+    });
+});
+
+test('createFlairTemplate() and deleteFlairTemplate()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/r/snoowrap_testing/api/flairtemplate_v2', () => template);
+    fakeReddit.on('POST', '/r/snoowrap_testing/api/deleteflairtemplate', () => ({}));
+    const subreddit = snooWrapped.getSubreddit('snoowrap_testing');
+
+    const created = await subreddit.createFlairTemplate({ type: 'link', text: 'Discussion', backgroundColor: '#0079d3', textColor: 'light' });
+    await subreddit.deleteFlairTemplate(created.id);
+
+    t.is(created.id, 'fdafe2c2');
+    t.like(fakeReddit.requestsTo('/r/snoowrap_testing/api/flairtemplate_v2')[0].form, {
+        flair_type: 'LINK_FLAIR',
+        text: 'Discussion',
+        text_editable: 'false',
+        background_color: '#0079d3',
+        text_color: 'light',
+        mod_only: 'false'
+    });
+    t.is(fakeReddit.requestsTo('/r/snoowrap_testing/api/deleteflairtemplate')[0].form.flair_template_id, 'fdafe2c2');
+});
+
+test('setUserFlair()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/r/snoowrap_testing/api/selectflair', () => ({}));
+
+    await snooWrapped.getSubreddit('snoowrap_testing').setUserFlair({ user: snooWrapped.getUser('OmgImAlexis'), text: 'Maintainer', cssClass: 'mod' });
+
+    t.like(fakeReddit.requestsTo('/r/snoowrap_testing/api/selectflair')[0].form, { name: 'OmgImAlexis', text: 'Maintainer', css_class: 'mod' });
+});
+
+test('setMultipleUserFlairs() sends 100 users per request as CSV', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/r/snoowrap_testing/api/flaircsv', ({ form }) => form.flair_csv.split('\n').map(() => ({ ok: true, status: 'added flair', errors: {}, warnings: {} })));
+    const flairs = Array.from({ length: 150 }, (_, index) => ({ user: `user_${index}`, text: `Flair ${index}` }));
+
+    const results = await snooWrapped.getSubreddit('snoowrap_testing').setMultipleUserFlairs([{ user: 'OmgImAlexis', text: 'Says "hi", a lot', cssClass: 'mod' }, ...flairs]);
+
+    const requests = fakeReddit.requestsTo('/r/snoowrap_testing/api/flaircsv');
+    t.deepEqual(requests.map(({ form }) => form.flair_csv.split('\n').length), [100, 51]);
+    t.is(requests[0].form.flair_csv.split('\n')[0], '"OmgImAlexis","Says ""hi"", a lot","mod"');
+    t.is(requests[0].form.flair_csv.split('\n')[1], '"user_0","Flair 0",""');
+    t.is(results.length, 151);
+    t.like(results[150], { user: 'user_149', ok: true });
+});
+
+test('getFlairOptions() and selectFlair() on a Submission', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/flairselector', () => ({
+        current: { flair_text: null, flair_css_class: null, flair_template_id: null },
+        choices: [{ flair_text: 'Discussion', flair_css_class: 'discussion', flair_template_id: 'fdafe2c2', flair_text_editable: true }]
+    }));
+    fakeReddit.on('POST', '/api/selectflair', () => ({}));
+    const submission = snooWrapped.getSubmission('2np694');
+
+    const options = await submission.getFlairOptions();
+    t.is(options.current, undefined);
+    t.deepEqual(options.choices, [{ templateId: 'fdafe2c2', text: 'Discussion', cssClass: 'discussion', textEditable: true }]);
+
+    const flaired = await submission.selectFlair({ templateId: 'fdafe2c2', text: 'Hot take' });
+    t.deepEqual(flaired.flair, { templateId: 'fdafe2c2', text: 'Hot take' });
+    t.is(fakeReddit.requestsTo('/api/flairselector')[0].form.link, 't3_2np694');
+    t.like(fakeReddit.requestsTo('/api/selectflair')[0].form, { link: 't3_2np694', flair_template_id: 'fdafe2c2', text: 'Hot take' });
+});
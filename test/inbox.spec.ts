@@ -0,0 +1,160 @@
+import ava, { TestInterface } from 'ava';
+import { Comment } from '../src/objects/comment';
+import { LoggedInUser } from '../src/objects/logged-in-user';
+import { PrivateMessage } from '../src/objects/private-message';
+import { Subreddit } from '../src/objects/subreddit';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const message = (name: string, data: Record<string, unknown> = {}) => ({
+    kind: 't4',
+    data: {
+        name,
+        author: 'OmgImAlexis',
+        dest: 'spez',
+        subject: 'Hi',
+        body: 'Hello there!',
+        created_utc: 1600000000,
+        new: true,
+        parent_id: null,
+        first_message_name: null,
+        subreddit: null,
+        replies: '',
+        ...data
+    }
+});
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('getMe() returns the authenticated account', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/api/v1/me', () => ({ name: 'OmgImAlexis', link_karma: 6, comment_karma: 10, inbox_count: 3, has_mail: true, has_mod_mail: false }));
+    fakeReddit.on('GET', '/api/v1/me/prefs', () => ({ over_18: false, lang: 'en' }));
+    fakeReddit.on('GET', '/api/v1/me/karma', () => ({ kind: 'KarmaList', data: [{ sr: 'AskReddit', link_karma: 5, comment_karma: 8 }] }));
+
+    const me = await snooWrapped.getMe();
+    t.true(me instanceof LoggedInUser);
+    t.is(me.name, 'OmgImAlexis');
+    t.is(me.karma?.link, 6);
+    t.is(me.inboxCount, 3);
+    t.true(me.hasMail);
+
+    const refreshed = await me.fetch();
+    t.true(refreshed instanceof LoggedInUser);
+
+    t.deepEqual(await me.getPreferences(), { over_18: false, lang: 'en' });
+
+    const [karma] = await me.getKarmaBreakdown();
+    t.true(karma.subreddit instanceof Subreddit);
+    t.is(karma.subreddit.name, 'AskReddit');
+    t.is(karma.link, 5);
+    t.is(karma.comment, 8);
+});
+
+test('getInbox() returns messages and comment replies', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/message/inbox', () => ({
+        kind: 'Listing',
+        data: {
+            after: null,
+            before: null,
+            children: [
+                message('t4_abc'),
+                { kind: 't1', data: { name: 't1_def', author: 'spez', subreddit: 'AskReddit', body: 'A reply', parent_id: 't3_xyz', replies: '' } }
+            ]
+        }
+    }));
+
+    const inbox = await snooWrapped.getInbox().fetch();
+    t.true(inbox.items[0] instanceof PrivateMessage);
+    t.true(inbox.items[1] instanceof Comment);
+
+    const [privateMessage] = inbox.items as PrivateMessage[];
+    t.is(privateMessage.subject, 'Hi');
+    t.is(privateMessage.author?.name, 'OmgImAlexis');
+    t.is(privateMessage.recipient?.name, 'spez');
+    t.true(privateMessage.isUnread);
+});
+
+test('getUnreadMessages() and getSentMessages() use their own endpoints', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const empty = () => ({ kind: 'Listing', data: { after: null, before: null, children: [] } });
+    fakeReddit.on('GET', '/message/unread', empty);
+    fakeReddit.on('GET', '/message/sent', empty);
+
+    await snooWrapped.getUnreadMessages({ limit: 5 }).fetch();
+    await snooWrapped.getSentMessages().fetch();
+
+    t.is(fakeReddit.requestsTo('/message/unread')[0].query.limit, '5');
+    t.is(fakeReddit.requestsTo('/message/sent').length, 1);
+});
+
+test('markMessagesAsRead() prefixes ids as private messages', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/read_message', () => ({}));
+
+    await snooWrapped.markMessagesAsRead(['abc', 't1_def', snooWrapped.getMessage('ghi')]);
+
+    t.is(fakeReddit.requestsTo('/api/read_message')[0].form.id, 't4_abc,t1_def,t4_ghi');
+});
+
+test('composeMessage() sends to users and subreddits', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/compose', () => ({ json: { errors: [] } }));
+
+    await snooWrapped.composeMessage({ to: 'spez', subject: 'Hi', text: 'Hello there!' });
+    await snooWrapped.composeMessage({ to: snooWrapped.getSubreddit('AskReddit'), subject: 'Hi', text: 'Hello mods!', fromSubreddit: 'snoowrap' });
+
+    const [toUser, toSubreddit] = fakeReddit.requestsTo('/api/compose').map(({ form }) => form);
+    t.deepEqual(toUser, { api_type: 'json', to: 'spez', subject: 'Hi', text: 'Hello there!' });
+    t.is(toSubreddit.to, '/r/AskReddit');
+    t.is(toSubreddit.from_sr, 'snoowrap');
+});
+
+test('PrivateMessage fetch() finds the message within its thread', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/message/messages/abc', () => ({
+        kind: 'Listing',
+        data: {
+            after: null,
+            before: null,
+            children: [
+                message('t4_root', {
+                    replies: { kind: 'Listing', data: { after: null, before: null, children: [message('t4_abc', { body: 'A reply', parent_id: 't4_root' })] } }
+                })
+            ]
+        }
+    }));
+    fakeReddit.on('POST', '/api/read_message', () => ({}));
+
+    const fetched = await snooWrapped.getMessage('abc').fetch();
+    t.is(fetched.body, 'A reply');
+    t.is(fetched.parentId, 't4_root');
+
+    const read = await fetched.markAsRead();
+    t.false(read.isUnread);
+});
+
+test('PrivateMessage reply() only needs the privatemessages scope', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/comment', () => ({ json: { errors: [], data: { things: [message('t4_def', { body: 'Thanks!', parent_id: 't4_abc' })] } } }));
+    snooWrapped.updateAccessToken('PRIVATE_MESSAGES_TOKEN', new Date(Date.now() + 3_600_000), ['privatemessages']);
+
+    const reply = await snooWrapped.getMessage('abc').reply('Thanks!');
+    t.true(reply instanceof PrivateMessage);
+    t.is(reply.name, 't4_def');
+    t.is(reply.parentId, 't4_abc');
+    t.is(fakeReddit.requestsTo('/api/comment')[0].form.thing_id, 't4_abc');
+});
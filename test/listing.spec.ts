@@ -0,0 +1,137 @@
+import ava, { TestInterface } from 'ava';
+import { Comment } from '../src/objects/comment';
+import { Listing } from '../src/objects/listing';
+import { RedditUser } from '../src/objects/reddit-user';
+import { Submission } from '../src/objects/submission';
+import { Subreddit } from '../src/objects/subreddit';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit, FakeRequest } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const TOTAL = 7;
+
+/**
+ * Pages through TOTAL submissions named t3_0 ... t3_6 like Reddit does.
+ */
+const pagedSubmissions = ({ query }: FakeRequest) => {
+    const start = query.after ? Number(query.after.substring(3)) + 1 : 0;
+    const end = Math.min(start + Number(query.limit), TOTAL);
+    const children = Array.from({ length: end - start }, (_, index) => ({ kind: 't3', data: { name: `t3_${start + index}`, title: `Post ${start + index}`, author: 'OmgImAlexis', subreddit: 'test' } }));
+    return { kind: 'Listing', data: { after: end < TOTAL ? `t3_${end - 1}` : null, before: null, children } };
+};
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('GET', '/r/test/hot', pagedSubmissions);
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('fetch() gets the first page', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const listing = await new Listing<Submission>({ uri: 'r/test/hot', options: { limit: 3 } }, snooWrapped).fetch();
+    t.is(listing.length, 3);
+    t.is(listing.after, 't3_2');
+    t.false(listing.isFinished);
+    t.true(listing.items[0] instanceof Submission);
+    t.is(listing.items[0].title, 'Post 0');
+    t.is(fakeReddit.requestsTo('/r/test/hot')[0].query.limit, '3');
+});
+
+test('fetchMore() appends the next items', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const listing = await new Listing<Submission>({ uri: 'r/test/hot', options: { limit: 3 } }, snooWrapped).fetch();
+    const longerListing = await listing.fetchMore({ amount: 2 });
+
+    t.is(listing.length, 3);
+    t.deepEqual(longerListing.items.map(item => item.name), ['t3_0', 't3_1', 't3_2', 't3_3', 't3_4']);
+    const [, secondRequest] = fakeReddit.requestsTo('/r/test/hot');
+    t.is(secondRequest.query.after, 't3_2');
+    t.is(secondRequest.query.count, '3');
+});
+
+test('fetchAll() stops when Reddit runs out', async t => {
+    const { snooWrapped } = t.context;
+
+    const listing = await new Listing<Submission>({ uri: 'r/test/hot', options: { limit: 3 } }, snooWrapped).fetchAll();
+    t.is(listing.length, TOTAL);
+    t.true(listing.isFinished);
+});
+
+test('maxItems caps the listing', async t => {
+    const { snooWrapped } = t.context;
+
+    const listing = await new Listing<Submission>({ uri: 'r/test/hot', options: { limit: 3, maxItems: 4 } }, snooWrapped).fetchAll();
+    t.is(listing.length, 4);
+    t.true(listing.isFinished);
+});
+
+test('supports for await', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const names: string[] = [];
+    for await (const submission of new Listing<Submission>({ uri: 'r/test/hot', options: { limit: 2, maxItems: 5 } }, snooWrapped)) {
+        names.push(submission.name);
+    }
+
+    t.deepEqual(names, ['t3_0', 't3_1', 't3_2', 't3_3', 't3_4']);
+    t.is(fakeReddit.requestsTo('/r/test/hot').length, 3);
+});
+
+test('children are mapped to the class for their kind', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/mixed', () => ({
+        kind: 'Listing',
+        data: {
+            after: null,
+            before: null,
+            children: [
+                { kind: 't1', data: { name: 't1_a', link_id: 't3_b', author: 'OmgImAlexis', subreddit: 'test' } },
+                { kind: 't2', data: { name: 'OmgImAlexis' } },
+                { kind: 't3', data: { name: 't3_b', author: 'OmgImAlexis', subreddit: 'test' } },
+                { kind: 't5', data: { display_name: 'test', subscribers: 10 } }
+            ]
+        }
+    }));
+
+    const listing = await new Listing({ uri: 'mixed' }, snooWrapped).fetch();
+    const [comment, user, submission, subreddit] = listing.items;
+    t.true(comment instanceof Comment);
+    t.true(user instanceof RedditUser);
+    t.true(submission instanceof Submission);
+    t.true(subreddit instanceof Subreddit);
+    t.is((comment as Comment).submission?.name, 't3_b');
+    t.is((subreddit as Subreddit).subscribers, 10);
+});
+
+test('timestamps are converted from epoch seconds', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/dated', () => ({
+        kind: 'Listing',
+        data: {
+            after: null,
+            before: null,
+            children: [
+                { kind: 't1', data: { name: 't1_a', link_id: 't3_b', author: 'OmgImAlexis', subreddit: 'test', created_utc: 1600000000, edited: false } },
+                { kind: 't3', data: { name: 't3_b', author: 'OmgImAlexis', subreddit: 'test', created_utc: 1600000000, edited: 1600000060 } },
+                { kind: 't2', data: { name: 'OmgImAlexis', created_utc: 1600000000 } }
+            ]
+        }
+    }));
+
+    const [comment, submission, user] = (await new Listing({ uri: 'dated' }, snooWrapped).fetch()).items as [Comment, Submission, RedditUser];
+    t.is(comment.created?.getTime(), 1600000000000);
+    t.is(comment.edited, undefined);
+    t.is(submission.created?.getTime(), 1600000000000);
+    t.is(submission.edited?.getTime(), 1600000060000);
+    t.is(user.created?.getTime(), 1600000000000);
+});
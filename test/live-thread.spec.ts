@@ -0,0 +1,193 @@
+import ava, { TestInterface } from 'ava';
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { LiveThread } from '../src/objects/live-thread';
+import { LiveUpdate } from '../src/objects/live-update';
+import { RedditUser } from '../src/objects/reddit-user';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const about = (data: Record<string, unknown> = {}) => ({
+    kind: 'LiveUpdateEvent',
+    data: {
+        id: 'whrdxo8dg9n0',
+        title: 'Breaking news',
+        description: '',
+        resources: '',
+        state: 'live',
+        viewer_count: 10,
+        websocket_url: null,
+        nsfw: false,
+        created_utc: 1600000000,
+        ...data
+    }
+});
+
+const rawUpdate = (id: string, body: string) => ({
+    kind: 'LiveUpdate',
+    data: { id, name: `LiveUpdate_${id}`, body, author: 'OmgImAlexis', created_utc: 1600000000, stricken: false }
+});
+
+/**
+ * Starts a websocket server on a random port.
+ */
+const startServer = () => new Promise<{ server: http.Server; sockets: WebSocket.Server; }>(resolve => {
+    const server = http.createServer();
+    server.listen(0, '127.0.0.1', () => resolve({ server, sockets: new WebSocket.Server({ server }) }));
+});
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('fetch() and getRecentUpdates()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/live/whrdxo8dg9n0/about', () => about());
+    fakeReddit.on('GET', '/live/whrdxo8dg9n0', () => ({ kind: 'Listing', data: { after: null, before: null, children: [rawUpdate('abc', 'Hello')] } }));
+
+    const thread = snooWrapped.getLivethread('whrdxo8dg9n0');
+    t.is(thread.name, 'LiveUpdateEvent_whrdxo8dg9n0');
+
+    const fetched = await thread.fetch();
+    t.true(fetched instanceof LiveThread);
+    t.is(fetched.title, 'Breaking news');
+    t.is(fetched.viewerCount, 10);
+
+    const updates = await thread.getRecentUpdates().fetch();
+    t.true(updates.items[0] instanceof LiveUpdate);
+    t.is(updates.items[0].body, 'Hello');
+    t.is(updates.items[0].author?.name, 'OmgImAlexis');
+});
+
+test('addUpdate(), strikeUpdate() and deleteUpdate()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    ['update', 'strike_update', 'delete_update'].forEach(action => fakeReddit.on('POST', `/api/live/whrdxo8dg9n0/${action}`, () => ({ json: { errors: [] } })));
+    const thread = snooWrapped.getLivethread('whrdxo8dg9n0');
+
+    await thread.addUpdate('Breaking news!');
+    await thread.strikeUpdate('abc');
+    await thread.deleteUpdate('LiveUpdate_def');
+
+    t.is(fakeReddit.requestsTo('/api/live/whrdxo8dg9n0/update')[0].form.body, 'Breaking news!');
+    t.is(fakeReddit.requestsTo('/api/live/whrdxo8dg9n0/strike_update')[0].form.id, 'LiveUpdate_abc');
+    t.is(fakeReddit.requestsTo('/api/live/whrdxo8dg9n0/delete_update')[0].form.id, 'LiveUpdate_def');
+});
+
+test('contributor management', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/live/whrdxo8dg9n0/contributors', () => [
+        { kind: 'UserList', data: { children: [{ id: 't2_abc', name: 'OmgImAlexis', permissions: ['all'] }] } },
+        { kind: 'UserList', data: { children: [] } }
+    ]);
+    fakeReddit.on('GET', '/user/spez/about', () => ({ kind: 't2', data: { name: 'spez', id: 'def' } }));
+    ['invite_contributor', 'rm_contributor', 'set_contributor_permissions'].forEach(action => fakeReddit.on('POST', `/api/live/whrdxo8dg9n0/${action}`, () => ({ json: { errors: [] } })));
+    const thread = snooWrapped.getLivethread('whrdxo8dg9n0');
+
+    const [contributor] = await thread.getContributors();
+    t.true(contributor.user instanceof RedditUser);
+    t.is(contributor.user.name, 'OmgImAlexis');
+    t.deepEqual(contributor.permissions, ['all']);
+
+    await thread.inviteContributor({ user: 'spez', permissions: ['update', 'edit'] });
+    await thread.setContributorPermissions({ user: snooWrapped.getUser('spez') });
+    await thread.removeContributor('spez');
+    await thread.removeContributor(contributor.user);
+
+    t.like(fakeReddit.requestsTo('/api/live/whrdxo8dg9n0/invite_contributor')[0].form, { name: 'spez', permissions: '-all,+update,+edit', type: 'liveupdate_contributor_invite' });
+    t.like(fakeReddit.requestsTo('/api/live/whrdxo8dg9n0/set_contributor_permissions')[0].form, { name: 'spez', permissions: '+all', type: 'liveupdate_contributor' });
+    t.deepEqual(fakeReddit.requestsTo('/api/live/whrdxo8dg9n0/rm_contributor').map(({ form }) => form.id), ['t2_def', 't2_abc']);
+});
+
+test('stream emits updates and reconnects when the connection drops', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const { server, sockets } = await startServer();
+    const { port } = server.address() as AddressInfo;
+    fakeReddit.on('GET', '/live/whrdxo8dg9n0/about', () => about({ websocket_url: `ws://127.0.0.1:${port}/live/whrdxo8dg9n0` }));
+
+    let connections = 0;
+    sockets.on('connection', socket => {
+        connections++;
+        // Drop the first connection straight away
+        if (connections === 1) return socket.close();
+        socket.send('not json');
+        socket.send(JSON.stringify({ type: 'activity', payload: { count: 42, fuzzed: false } }));
+        socket.send(JSON.stringify({ type: 'update', payload: rawUpdate('abc', 'Hello') }));
+    });
+
+    const stream = snooWrapped.getLivethread('whrdxo8dg9n0').createStream({ reconnectBackoffBase: 1 });
+    const reconnects: number[] = [];
+    stream.on('reconnecting', attempt => reconnects.push(attempt));
+    const malformed = new Promise<Error>(resolve => stream.on('error', resolve));
+    const activity = new Promise<number>(resolve => stream.on('activity', resolve));
+    const update = await new Promise<LiveUpdate>(resolve => stream.on('update', resolve));
+
+    t.true(update instanceof LiveUpdate);
+    t.is(update.body, 'Hello');
+    t.is(await activity, 42);
+    t.regex((await malformed).message, /malformed/);
+    t.false(stream.isClosed);
+    t.deepEqual(reconnects, [1]);
+    t.is(fakeReddit.requestsTo('/live/whrdxo8dg9n0/about').length, 2);
+
+    const closed = new Promise<void>(resolve => stream.on('close', resolve));
+    stream.close();
+    await closed;
+    t.true(stream.isClosed);
+    await new Promise(resolve => sockets.close(() => server.close(resolve)));
+});
+
+test('stream gets a fresh websocket URL for each connection even when caching', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, cache: true });
+    const { server, sockets } = await startServer();
+    const { port } = server.address() as AddressInfo;
+    let urls = 0;
+    fakeReddit.on('GET', '/live/whrdxo8dg9n0/about', () => about({ websocket_url: `ws://127.0.0.1:${port}/live/whrdxo8dg9n0?m=${++urls}` }));
+
+    const paths: string[] = [];
+    const reconnected = new Promise<void>(resolve => sockets.on('connection', (socket, request) => {
+        paths.push(request.url ?? '');
+        // Drop the first connection straight away
+        if (paths.length === 1) return socket.close();
+        resolve();
+    }));
+
+    const stream = snooWrapped.getLivethread('whrdxo8dg9n0').createStream({ reconnectBackoffBase: 1 });
+    await reconnected;
+
+    t.deepEqual(paths, ['/live/whrdxo8dg9n0?m=1', '/live/whrdxo8dg9n0?m=2']);
+    stream.close();
+    await new Promise(resolve => sockets.close(() => server.close(resolve)));
+});
+
+test('stream completes when the thread is over', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/live/whrdxo8dg9n0/about', () => about({ state: 'complete' }));
+
+    const stream = snooWrapped.getLivethread('whrdxo8dg9n0').stream;
+    await new Promise<void>(resolve => stream.on('complete', resolve));
+
+    t.true(stream.isClosed);
+});
+
+test('stream gives up after too many failed reconnects', async t => {
+    const { snooWrapped } = t.context;
+
+    // Nothing is registered for the about page so every fetch fails
+    const stream = snooWrapped.getLivethread('whrdxo8dg9n0').createStream({ reconnectBackoffBase: 1, maxReconnectAttempts: 2 });
+    const error = await new Promise<Error>(resolve => stream.on('error', resolve));
+
+    t.truthy(error);
+    t.true(stream.isClosed);
+});
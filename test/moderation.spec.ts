@@ -0,0 +1,95 @@
+import ava, { TestInterface } from 'ava';
+import { Comment } from '../src/objects/comment';
+import { ModAction } from '../src/objects/mod-action';
+import { Submission } from '../src/objects/submission';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const listing = (children: unknown[]) => ({ kind: 'Listing', data: { after: null, before: null, children } });
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('GET', '/r/snoowrap_testing/about/modqueue', () => listing([
+        { kind: 't3', data: { name: 't3_abc', author: 'OmgImAlexis', subreddit: 'snoowrap_testing', num_reports: 2, user_reports: [['Spam', 2]], mod_reports: [] } },
+        { kind: 't1', data: { name: 't1_def', link_id: 't3_abc', author: 'OmgImAlexis', subreddit: 'snoowrap_testing', removed: false } }
+    ]));
+    fakeReddit.on('POST', '/api/approve', () => ({}));
+    fakeReddit.on('POST', '/api/remove', () => ({}));
+    fakeReddit.on('POST', '/api/ignore_reports', () => ({}));
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('getModqueue()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const modqueue = await snooWrapped.getSubreddit('snoowrap_testing').getModqueue({ only: 'links' }).fetch();
+    const [submission, comment] = modqueue.items;
+    t.true(submission instanceof Submission);
+    t.true(comment instanceof Comment);
+    t.is(submission.reports.count, 2);
+    t.deepEqual(submission.reports.user, [['Spam', 2]]);
+    t.is(fakeReddit.requestsTo('/r/snoowrap_testing/about/modqueue')[0].query.only, 'links');
+});
+
+test('approve(), remove() and ignoreReports()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const modqueue = await snooWrapped.getSubreddit('snoowrap_testing').getModqueue().fetch();
+    const [submission, comment] = modqueue.items;
+
+    const approved = await submission.approve();
+    t.true(approved instanceof Submission);
+    t.true(approved.approved);
+    t.is(fakeReddit.requestsTo('/api/approve')[0].query.id, 't3_abc');
+
+    const removed = await comment.remove({ spam: true });
+    t.true(removed instanceof Comment);
+    t.true(removed.removed);
+    t.true(removed.spam);
+    t.is(fakeReddit.requestsTo('/api/remove')[0].query.spam, 'true');
+
+    const ignored = await submission.ignoreReports();
+    t.true(ignored.reportsIgnored);
+});
+
+test('getModerationLog()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/snoowrap_testing/about/log', () => listing([{
+        kind: 'modaction',
+        data: {
+            id: 'ModAction_1',
+            action: 'banuser',
+            mod: 'OmgImAlexis',
+            subreddit: 'snoowrap_testing',
+            created_utc: 1500000000,
+            details: 'permanent',
+            description: null,
+            target_fullname: 't2_xyz',
+            target_author: 'spammer',
+            target_title: null,
+            target_permalink: null,
+            target_body: null
+        }
+    }]));
+
+    const log = await snooWrapped.getSubreddit('snoowrap_testing').getModerationLog({ mods: ['OmgImAlexis', snooWrapped.getUser('not_an_aardvark')], type: 'banuser' }).fetch();
+    const [action] = log.items;
+    t.true(action instanceof ModAction);
+    t.is(action.action, 'banuser');
+    t.is(action.moderator?.name, 'OmgImAlexis');
+    t.is(action.target.author?.name, 'spammer');
+    t.is(action.created?.getTime(), 1500000000000);
+
+    const [request] = fakeReddit.requestsTo('/r/snoowrap_testing/about/log');
+    t.is(request.query.mod, 'OmgImAlexis,not_an_aardvark');
+    t.is(request.query.type, 'banuser');
+});
@@ -0,0 +1,140 @@
+import ava, { TestInterface } from 'ava';
+import { ModmailConversation } from '../src/objects/modmail-conversation';
+import { ModmailMessage } from '../src/objects/modmail-message';
+import { RedditUser } from '../src/objects/reddit-user';
+import { Subreddit } from '../src/objects/subreddit';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const participant = (name: string, isMod = false) => ({ name, isMod, isAdmin: false, isOp: !isMod, isParticipant: !isMod, isHidden: false, isDeleted: false });
+
+const conversation = (id: string, messageIds: string[]) => ({
+    id,
+    subject: 'Why was my post removed?',
+    state: 1,
+    isInternal: false,
+    isHighlighted: false,
+    isAuto: false,
+    numMessages: messageIds.length,
+    lastUpdated: '2021-08-01T10:00:00.000000+00:00',
+    lastUnread: null,
+    owner: { displayName: 'snoowrap_testing', type: 'subreddit', id: 't5_abc' },
+    participant: participant('spez'),
+    authors: [participant('spez'), participant('OmgImAlexis', true)],
+    objIds: messageIds.map(messageId => ({ id: messageId, key: 'messages' }))
+});
+
+const message = (id: string, author: string, bodyMarkdown: string) => ({
+    id,
+    body: `<p>${bodyMarkdown}</p>`,
+    bodyMarkdown,
+    author: participant(author, author === 'OmgImAlexis'),
+    isInternal: false,
+    date: '2021-08-01T10:00:00.000000+00:00'
+});
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('getNewModmailConversations()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/api/mod/conversations', () => ({
+        conversationIds: ['b', 'a'],
+        conversations: { a: conversation('a', ['m1']), b: conversation('b', ['m2', 'm3']) },
+        messages: { m1: message('m1', 'spez', 'Hi'), m2: message('m2', 'spez', 'Hello'), m3: message('m3', 'OmgImAlexis', 'Hey') },
+        viewerId: 't2_abc'
+    }));
+
+    const conversations = await snooWrapped.getNewModmailConversations({ state: 'inprogress', entity: ['snoowrap_testing', snooWrapped.getSubreddit('snoowrap')] });
+
+    t.deepEqual(conversations.map(item => item.name), ['b', 'a']);
+    t.true(conversations[0] instanceof ModmailConversation);
+    t.is(conversations[0].state, 'inprogress');
+    t.true(conversations[0].subreddit instanceof Subreddit);
+    t.is(conversations[0].subreddit?.name, 'snoowrap_testing');
+    t.true(conversations[0].participant instanceof RedditUser);
+    t.is(conversations[0].participant?.name, 'spez');
+    t.deepEqual(conversations[0].authors?.map(author => author.name), ['spez', 'OmgImAlexis']);
+    t.true(conversations[0].messages?.[1] instanceof ModmailMessage);
+    t.deepEqual(conversations[0].messages?.map(item => item.body), ['Hello', 'Hey']);
+    t.true(conversations[0].messages?.[1].author instanceof RedditUser);
+    t.like(fakeReddit.requestsTo('/api/mod/conversations')[0].query, { state: 'inprogress', entity: 'snoowrap_testing,snoowrap' });
+});
+
+test('getConversation().fetch() and reply()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/api/mod/conversations/a', () => ({ conversation: conversation('a', ['m1']), messages: { m1: message('m1', 'spez', 'Hi') } }));
+    fakeReddit.on('POST', '/api/mod/conversations/a', () => ({
+        conversation: conversation('a', ['m1', 'm2']),
+        messages: { m1: message('m1', 'spez', 'Hi'), m2: message('m2', 'OmgImAlexis', 'Hello there') }
+    }));
+
+    const fetched = await snooWrapped.getConversation('a').fetch();
+    t.is(fetched.subject, 'Why was my post removed?');
+    t.is(fetched.messages?.length, 1);
+
+    const replied = await fetched.reply({ body: 'Hello there', isAuthorHidden: true });
+    t.is(replied.messages?.[1].body, 'Hello there');
+    t.deepEqual(fakeReddit.requestsTo('/api/mod/conversations/a').find(({ method }) => method === 'POST')?.form, { body: 'Hello there', isInternal: 'false', isAuthorHidden: 'true' });
+});
+
+test('archive(), highlight() and mute()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    ['archive', 'unarchive', 'highlight', 'mute', 'unmute'].forEach(action => fakeReddit.on('POST', `/api/mod/conversations/a/${action}`, () => ({})));
+    fakeReddit.on('DELETE', '/api/mod/conversations/a/highlight', () => ({}));
+    const conversation = snooWrapped.getConversation('a');
+
+    t.is((await conversation.archive()).state, 'archived');
+    t.is((await conversation.unarchive()).state, 'inprogress');
+    t.true((await conversation.highlight()).isHighlighted);
+    t.false((await conversation.unhighlight()).isHighlighted);
+    await conversation.mute({ hours: 168 });
+    await conversation.unmute();
+
+    t.is(fakeReddit.requestsTo('/api/mod/conversations/a/mute')[0].form.num_hours, '168');
+    t.deepEqual(fakeReddit.requestsTo('/api/mod/conversations/a/highlight').map(({ method }) => method), ['POST', 'DELETE']);
+    t.is(fakeReddit.requestsTo('/api/mod/conversations/a/unmute').length, 1);
+});
+
+test('createModmailDiscussion()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/mod/conversations', () => ({
+        conversation: { ...conversation('c', ['m1']), isInternal: true, participant: {}, state: 0 },
+        messages: { m1: message('m1', 'OmgImAlexis', 'What do we think?') }
+    }));
+
+    const discussion = await snooWrapped.createModmailDiscussion({ subreddit: 'snoowrap_testing', subject: 'New rules', body: 'What do we think?' });
+
+    t.is(discussion.name, 'c');
+    t.true(discussion.isInternal);
+    t.is(discussion.participant, undefined);
+    t.is(discussion.state, 'new');
+    t.like(fakeReddit.requestsTo('/api/mod/conversations')[0].form, { srName: 'snoowrap_testing', subject: 'New rules', body: 'What do we think?' });
+});
+
+test('getUnreadModmailCount()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/api/mod/conversations/unread/count', () => ({ new: 3, inprogress: 1, archived: 0, highlighted: 2, mod: 0, notifications: 0, join_requests: 1 }));
+
+    t.deepEqual(await snooWrapped.getUnreadModmailCount(), {
+        new: 3,
+        inprogress: 1,
+        archived: 0,
+        highlighted: 2,
+        mod: 0,
+        notifications: 0,
+        joinRequests: 1,
+        appeals: 0
+    });
+});
@@ -0,0 +1,121 @@
+import ava, { TestInterface } from 'ava';
+import { MultiReddit } from '../src/objects/multi-reddit';
+import { Submission } from '../src/objects/submission';
+import { Subreddit } from '../src/objects/subreddit';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const multi = (name: string, owner = 'OmgImAlexis', data: Record<string, unknown> = {}) => ({
+    kind: 'LabeledMulti',
+    data: {
+        name,
+        display_name: name,
+        path: `/user/${owner}/m/${name}/`,
+        owner,
+        description_md: '',
+        visibility: 'private',
+        subreddits: [{ name: 'typescript' }, { name: 'node' }],
+        over_18: false,
+        can_edit: true,
+        copied_from: null,
+        icon_url: '',
+        key_color: '#cee3f8',
+        created_utc: 1600000000,
+        ...data
+    }
+});
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('GET', '/api/multi/mine', () => [multi('programming'), multi('news')]);
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('getMyMultireddits() and RedditUser.getMultireddits()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/api/multi/user/spez', () => [multi('reading', 'spez', { visibility: 'public' })]);
+
+    const [programming, news] = await snooWrapped.getMyMultireddits();
+    const [reading] = await snooWrapped.getUser('spez').getMultireddits();
+
+    t.true(programming instanceof MultiReddit);
+    t.is(programming.path, 'user/OmgImAlexis/m/programming');
+    t.true(programming.subreddits?.[0] instanceof Subreddit);
+    t.deepEqual(programming.subreddits?.map(subreddit => subreddit.name), ['typescript', 'node']);
+    t.is(news.name, 'news');
+    t.is(reading.owner.name, 'spez');
+    t.is(reading.visibility, 'public');
+});
+
+test('addSubreddit() and removeSubreddit()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('PUT', '/api/multi/user/OmgImAlexis/m/programming/r/rust', () => ({ name: 'rust' }));
+    fakeReddit.on('DELETE', '/api/multi/user/OmgImAlexis/m/programming/r/node', () => ({}));
+    const [programming] = await snooWrapped.getMyMultireddits();
+
+    const added = await programming.addSubreddit('rust');
+    const removed = await added.removeSubreddit(snooWrapped.getSubreddit('node'));
+
+    t.deepEqual(added.subreddits?.map(subreddit => subreddit.name), ['typescript', 'node', 'rust']);
+    t.deepEqual(removed.subreddits?.map(subreddit => subreddit.name), ['typescript', 'rust']);
+    t.deepEqual(JSON.parse(fakeReddit.requestsTo('/api/multi/user/OmgImAlexis/m/programming/r/rust')[0].form.model), { name: 'rust' });
+});
+
+test('copy() and rename()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/api/v1/me', () => ({ name: 'OmgImAlexis' }));
+    fakeReddit.on('GET', '/api/multi/user/spez/m/reading', () => multi('reading', 'spez'));
+    fakeReddit.on('POST', '/api/multi/copy', () => multi('my-reading', 'OmgImAlexis', { copied_from: '/user/spez/m/reading' }));
+    fakeReddit.on('POST', '/api/multi/rename', () => multi('books'));
+
+    const reading = await new MultiReddit({ name: 'reading', owner: snooWrapped.getUser('spez') }, snooWrapped).fetch();
+    const copy = await reading.copy({ newName: 'my-reading' });
+    const renamed = await copy.rename({ newName: 'books' });
+
+    t.is(copy.path, 'user/OmgImAlexis/m/my-reading');
+    t.is(copy.copiedFrom, '/user/spez/m/reading');
+    t.is(renamed.path, 'user/OmgImAlexis/m/books');
+    t.like(fakeReddit.requestsTo('/api/multi/copy')[0].form, { from: 'user/spez/m/reading', to: 'user/OmgImAlexis/m/my-reading' });
+    t.like(fakeReddit.requestsTo('/api/multi/rename')[0].form, { from: 'user/OmgImAlexis/m/my-reading', to: 'user/OmgImAlexis/m/books' });
+});
+
+test('edit() and delete()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('PUT', '/api/multi/user/OmgImAlexis/m/programming', () => multi('programming', 'OmgImAlexis', { visibility: 'public', description_md: 'Code' }));
+    fakeReddit.on('DELETE', '/api/multi/user/OmgImAlexis/m/programming', () => ({}));
+    const [programming] = await snooWrapped.getMyMultireddits();
+
+    const edited = await programming.edit({ visibility: 'public', description: 'Code' });
+    await edited.delete();
+
+    t.is(edited.visibility, 'public');
+    t.is(edited.description, 'Code');
+    const requests = fakeReddit.requestsTo('/api/multi/user/OmgImAlexis/m/programming');
+    t.deepEqual(JSON.parse(requests[0].form.model), { visibility: 'public', description_md: 'Code' });
+    t.deepEqual(requests.map(({ method }) => method), ['PUT', 'DELETE']);
+});
+
+test('listings return Submissions', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const listing = { kind: 'Listing', data: { after: null, before: null, children: [{ kind: 't3', data: { name: 't3_abc', author: 'OmgImAlexis', subreddit: 'typescript', title: 'TS 5' } }] } };
+    ['hot', 'new', 'top'].forEach(sort => fakeReddit.on('GET', `/user/OmgImAlexis/m/programming/${sort}`, () => listing));
+    const [programming] = await snooWrapped.getMyMultireddits();
+
+    const hot = await programming.getHot().fetch();
+    await programming.getNew().fetch();
+    await programming.getTop({ time: 'week' }).fetch();
+
+    t.true(hot.items[0] instanceof Submission);
+    t.is(hot.items[0].title, 'TS 5');
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/m/programming/top')[0].query.t, 'week');
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/m/programming/new').length, 1);
+});
@@ -0,0 +1,104 @@
+import ava, { TestInterface } from 'ava';
+import { URL } from 'url';
+import { InvalidGrantError } from '../src/errors/invalid-grant-error';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+}>;
+
+const app = { clientId: 'CLIENT_ID', clientSecret: 'CLIENT_SECRET', userAgent: 'node:snoowrapped-tests:v1.0.0' };
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('GET', '/api/v1/me', () => ({ name: 'OmgImAlexis' }));
+    fakeReddit.on('POST', '/api/v1/revoke_token', () => ({}));
+    t.context = { fakeReddit };
+});
+
+test('getAuthUrl()', t => {
+    const url = new URL(SnooWrapped.getAuthUrl({ clientId: 'CLIENT_ID', scope: ['identity', 'read'], redirectUri: 'https://example.com/callback', state: 'STATE' }));
+
+    t.is(url.origin + url.pathname, 'https://www.reddit.com/api/v1/authorize');
+    t.deepEqual(Object.fromEntries(url.searchParams.entries()), {
+        client_id: 'CLIENT_ID',
+        response_type: 'code',
+        state: 'STATE',
+        redirect_uri: 'https://example.com/callback',
+        duration: 'permanent',
+        scope: 'identity read'
+    });
+
+    const compact = new URL(SnooWrapped.getAuthUrl({ clientId: 'CLIENT_ID', scope: ['identity'], redirectUri: 'https://example.com/callback', state: 'STATE', permanent: false, compact: true }));
+    t.is(compact.pathname, '/api/v1/authorize.compact');
+    t.is(compact.searchParams.get('duration'), 'temporary');
+});
+
+test('fromAuthCode() exchanges the code for tokens', async t => {
+    const { fakeReddit } = t.context;
+    fakeReddit.on('POST', '/api/v1/access_token', () => ({ access_token: 'CODE_ACCESS_TOKEN', refresh_token: 'CODE_REFRESH_TOKEN', expires_in: 3600, scope: 'identity read' }));
+
+    const snooWrapped = await SnooWrapped.fromAuthCode({ ...app, code: 'CODE', redirectUri: 'https://example.com/callback', transport: fakeReddit.transport });
+    await snooWrapped.getMe();
+
+    const [tokenRequest] = fakeReddit.requestsTo('/api/v1/access_token');
+    t.deepEqual(tokenRequest.form, { grant_type: 'authorization_code', code: 'CODE', redirect_uri: 'https://example.com/callback' });
+    t.is(tokenRequest.headers.Authorization, `Basic ${Buffer.from('CLIENT_ID:CLIENT_SECRET').toString('base64')}`);
+    t.is(snooWrapped.credentials.refreshToken, 'CODE_REFRESH_TOKEN');
+    t.deepEqual(snooWrapped.credentials.scope, ['identity', 'read']);
+    t.is(fakeReddit.requestsTo('/api/v1/me')[0].headers.Authorization, 'Bearer CODE_ACCESS_TOKEN');
+});
+
+test('fromAuthCode() surfaces invalid codes', async t => {
+    const { fakeReddit } = t.context;
+    fakeReddit.on('POST', '/api/v1/access_token', () => ({ error: 'invalid_grant' }));
+
+    await t.throwsAsync<InvalidGrantError>(SnooWrapped.fromAuthCode({ ...app, code: 'USED_CODE', redirectUri: 'https://example.com/callback', transport: fakeReddit.transport }), { instanceOf: InvalidGrantError });
+});
+
+test('application only grants', async t => {
+    const { fakeReddit } = t.context;
+
+    const clientCredentials = new SnooWrapped({ ...app, grantType: 'client_credentials', transport: fakeReddit.transport });
+    await clientCredentials.getMe();
+
+    const installedClient = new SnooWrapped({ clientId: 'CLIENT_ID', userAgent: app.userAgent, grantType: 'installed_client', deviceId: 'DEVICE_ID_OF_TWENTY_CHARS', transport: fakeReddit.transport });
+    await installedClient.getMe();
+
+    const [first, second] = fakeReddit.requestsTo('/api/v1/access_token');
+    t.is(first.form.grant_type, 'client_credentials');
+    t.like(second.form, { grant_type: 'https://oauth.reddit.com/grants/installed_client', device_id: 'DEVICE_ID_OF_TWENTY_CHARS' });
+    t.is(second.headers.Authorization, `Basic ${Buffer.from('CLIENT_ID:').toString('base64')}`);
+});
+
+test('token requests use the configured user agent', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport });
+
+    await snooWrapped.getMe();
+
+    t.is(fakeReddit.requestsTo('/api/v1/access_token')[0].headers['User-Agent'], credentials.userAgent);
+});
+
+test('revoking tokens', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...app, refreshToken: 'REFRESH_TOKEN', transport: fakeReddit.transport });
+    await snooWrapped.getMe();
+
+    await snooWrapped.revokeAccessToken();
+    t.is(snooWrapped.credentials.accessToken, undefined);
+
+    // A new access token is requested with the refresh token
+    await snooWrapped.getMe();
+    t.is(fakeReddit.requestsTo('/api/v1/access_token').length, 2);
+
+    await snooWrapped.revokeRefreshToken();
+    t.is(snooWrapped.credentials.refreshToken, undefined);
+
+    t.deepEqual(fakeReddit.requestsTo('/api/v1/revoke_token').map(({ form }) => form), [
+        { token: 'THIS_IS_A_FAKE_ACCESS_TOKEN_USED_FOR_TESTS', token_type_hint: 'access_token' },
+        { token: 'REFRESH_TOKEN', token_type_hint: 'refresh_token' }
+    ]);
+});
@@ -66,7 +66,7 @@ test.serial('fetch()', async t => {
     t.true(fetchedRedditUser instanceof RedditUser);
     t.is(fetchedRedditUser.name, 'OmgImAlexis');
     t.is(fetchedRedditUser.id, 'f29oz');
-    t.is(fetchedRedditUser.created?.getTime(), new Date(1391176276).getTime());
+    t.is(fetchedRedditUser.created?.getTime(), 1391176276000);
     t.true(fetchedRedditUser.isGold);
     t.true(fetchedRedditUser.isMod);
     t.true(fetchedRedditUser.isVerified);
@@ -0,0 +1,84 @@
+import ava, { TestInterface } from 'ava';
+import { RateLimitError } from '../src/errors/rate-limit-error';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit, reply } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+}>;
+
+const user = { kind: 't2', data: { name: 'OmgImAlexis' } };
+
+test.beforeEach(t => {
+    t.context = {
+        fakeReddit: new FakeReddit()
+    };
+});
+
+test('ratelimit headers are recorded', async t => {
+    const { fakeReddit } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => reply(200, user, {
+        'x-ratelimit-remaining': '598.0',
+        'x-ratelimit-used': '2',
+        'x-ratelimit-reset': '300'
+    }));
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport });
+
+    t.is(snooWrapped.ratelimit, undefined);
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+
+    t.is(snooWrapped.ratelimit?.remaining, 598);
+    t.is(snooWrapped.ratelimit?.used, 2);
+    t.true((snooWrapped.ratelimit?.reset.getTime() ?? 0) > Date.now() + 290_000);
+});
+
+test('throws once the ratelimit is exhausted', async t => {
+    const { fakeReddit } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => reply(200, user, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-used': '600',
+        'x-ratelimit-reset': '300'
+    }));
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport });
+
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    await t.throwsAsync(snooWrapped.getUser('OmgImAlexis').fetch(), { instanceOf: RateLimitError });
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 1);
+});
+
+test('waits for the ratelimit to reset when asked to', async t => {
+    const { fakeReddit } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => reply(200, user, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-used': '600',
+        'x-ratelimit-reset': '0.2'
+    }));
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, continueAfterRatelimitError: true });
+
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    const start = Date.now();
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+
+    t.true(Date.now() - start >= 150);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 2);
+});
+
+test('limits how many requests are in flight', async t => {
+    const { fakeReddit } = t.context;
+    let inFlight = 0;
+    let maxInFlight = 0;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        inFlight--;
+        return user;
+    });
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, requestConcurrency: 2 });
+
+    await Promise.all(Array.from({ length: 6 }, () => snooWrapped.getUser('OmgImAlexis').fetch()));
+
+    t.is(maxInFlight, 2);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 6);
+});
@@ -0,0 +1,79 @@
+import ava, { TestInterface } from 'ava';
+import { SnooWrapped, SnooWrappedOptions } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit, reply } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    createSnooWrapped: (options?: Partial<SnooWrappedOptions>) => SnooWrapped;
+}>;
+
+const user = { kind: 't2', data: { name: 'OmgImAlexis' } };
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        createSnooWrapped: (options = {}) => new SnooWrapped({ ...credentials, transport: fakeReddit.transport, retryBackoffBase: 1, ...options } as SnooWrappedOptions)
+    };
+});
+
+/**
+ * Fails the first `failures` requests with the given response, then replies normally.
+ */
+const failingHandler = (failures: number, failure: () => unknown, success: unknown) => {
+    let calls = 0;
+    return () => {
+        calls++;
+        return calls <= failures ? failure() : success;
+    };
+};
+
+test('5xx responses are retried', async t => {
+    const { fakeReddit, createSnooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', failingHandler(2, () => reply(503, {}), user));
+
+    const fetchedUser = await createSnooWrapped().getUser('OmgImAlexis').fetch();
+    t.is(fetchedUser.name, 'OmgImAlexis');
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 3);
+});
+
+test('network errors are retried', async t => {
+    const { fakeReddit, createSnooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', failingHandler(1, () => {
+        throw new Error('socket hang up');
+    }, user));
+
+    await createSnooWrapped().getUser('OmgImAlexis').fetch();
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 2);
+});
+
+test('gives up after maxRetryAttempts', async t => {
+    const { fakeReddit, createSnooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => reply(500, {}));
+
+    await t.throwsAsync(createSnooWrapped({ maxRetryAttempts: 2 }).getUser('OmgImAlexis').fetch());
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 3);
+});
+
+test('Retry-After is honored for 429 responses', async t => {
+    const { fakeReddit, createSnooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', failingHandler(1, () => reply(429, {}, { 'retry-after': '0.2' }), user));
+
+    const start = Date.now();
+    await createSnooWrapped().getUser('OmgImAlexis').fetch();
+    t.true(Date.now() - start >= 150);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 2);
+});
+
+test('POST requests are only retried when opted in', async t => {
+    const { fakeReddit, createSnooWrapped } = t.context;
+    fakeReddit.on('POST', '/api/lock', failingHandler(1, () => reply(502, {}), {}));
+
+    await t.throwsAsync(createSnooWrapped().getSubmission('2np694').lock());
+    t.is(fakeReddit.requestsTo('/api/lock').length, 1);
+
+    fakeReddit.on('POST', '/api/lock', failingHandler(1, () => reply(502, {}), {}));
+    await createSnooWrapped({ retryNonIdempotentRequests: true }).getSubmission('2np694').lock();
+    t.is(fakeReddit.requestsTo('/api/lock').length, 3);
+});
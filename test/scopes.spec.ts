@@ -0,0 +1,64 @@
+import ava, { TestInterface } from 'ava';
+import { InsufficientScopeError } from '../src/errors/insufficient-scope-error';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+}>;
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('POST', '/api/v1/access_token', ({ form }) => ({
+        access_token: 'THIS_IS_A_FAKE_ACCESS_TOKEN_USED_FOR_TESTS',
+        token_type: 'bearer',
+        expires_in: 3600,
+        // Grant whatever was asked for
+        scope: form.scope
+    }));
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => ({ kind: 't2', data: { name: 'OmgImAlexis' } }));
+    fakeReddit.on('POST', '/api/lock', () => ({}));
+    t.context = { fakeReddit };
+});
+
+test('every scope is requested by default', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport });
+
+    t.true(await snooWrapped.hasScope('modposts', 'read'));
+    t.is(fakeReddit.requestsTo('/api/v1/access_token')[0].form.scope, '*');
+});
+
+test('requested scopes are sent with the token request', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, requestedScopes: ['identity', 'read'] });
+
+    t.true(await snooWrapped.hasScope('read'));
+    t.false(await snooWrapped.hasScope('read', 'modposts'));
+    t.is(fakeReddit.requestsTo('/api/v1/access_token')[0].form.scope, 'identity read');
+    t.deepEqual(snooWrapped.credentials.scope, ['identity', 'read']);
+});
+
+test('calls without a granted scope fail before they\'re sent', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ ...credentials, transport: fakeReddit.transport, requestedScopes: ['read'] });
+
+    const user = await snooWrapped.getUser('OmgImAlexis').fetch();
+    t.is(user.name, 'OmgImAlexis');
+
+    const error = await t.throwsAsync<InsufficientScopeError>(snooWrapped.getSubmission('2np694').lock(), { instanceOf: InsufficientScopeError });
+    t.is(error.scope, 'modposts');
+    t.deepEqual(error.grantedScopes, ['read']);
+    t.is(error.endpoint, 'api/lock');
+    t.is(fakeReddit.requestsTo('/api/lock').length, 0);
+});
+
+test('tokens with unknown scopes aren\'t checked', async t => {
+    const { fakeReddit } = t.context;
+    const snooWrapped = new SnooWrapped({ accessToken: 'THIS_IS_A_FAKE_ACCESS_TOKEN_USED_FOR_TESTS', userAgent: credentials.userAgent, transport: fakeReddit.transport });
+
+    t.true(await snooWrapped.hasScope('modposts'));
+    await snooWrapped.getSubmission('2np694').lock();
+    t.is(fakeReddit.requestsTo('/api/lock').length, 1);
+});
@@ -0,0 +1,76 @@
+import ava, { TestInterface } from 'ava';
+import { RequiredArgumentError } from '../src/errors/required-argument-erorr';
+import { RedditUser } from '../src/objects/reddit-user';
+import { Submission } from '../src/objects/submission';
+import { Subreddit } from '../src/objects/subreddit';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const listing = (children: unknown[]) => ({ kind: 'Listing', data: { after: null, before: null, children } });
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('search() searches all of Reddit', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/search', () => listing([
+        { kind: 't3', data: { name: 't3_abc', author: 'OmgImAlexis', subreddit: 'javascript', title: 'snoowrap' } }
+    ]));
+
+    const results = await snooWrapped.search({ query: 'snoowrap', sort: 'top', time: 'year', syntax: 'plain' }).fetch();
+
+    t.true(results.items[0] instanceof Submission);
+    t.like(fakeReddit.requestsTo('/search')[0].query, { q: 'snoowrap', sort: 'top', t: 'year', syntax: 'plain', type: 'link' });
+});
+
+test('search() with a subreddit is restricted to it', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/javascript/search', () => listing([]));
+
+    await snooWrapped.search({ query: 'snoowrap', subreddit: 'javascript' }).fetch();
+    await snooWrapped.getSubreddit('javascript').search({ query: 'reddit', limit: 5 }).fetch();
+
+    const [first, second] = fakeReddit.requestsTo('/r/javascript/search');
+    t.like(first.query, { q: 'snoowrap', restrict_sr: 'true' });
+    t.like(second.query, { q: 'reddit', restrict_sr: 'true', limit: '5' });
+});
+
+test('search() requires a query', t => {
+    const { snooWrapped } = t.context;
+
+    t.throws(() => {
+        snooWrapped.search({ query: '' });
+    }, { instanceOf: RequiredArgumentError });
+});
+
+test('searchSubredditNames()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/api/search_reddit_names', () => ({ names: ['snoowrap', 'snoobot'] }));
+
+    t.deepEqual(await snooWrapped.searchSubredditNames({ query: 'snoo', includeNsfw: false }), ['snoowrap', 'snoobot']);
+    t.deepEqual(fakeReddit.requestsTo('/api/search_reddit_names')[0].query, { query: 'snoo', exact: 'false', include_over_18: 'false' });
+});
+
+test('searchSubreddits() and searchUsers()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/subreddits/search', () => listing([{ kind: 't5', data: { display_name: 'programming', title: 'Programming' } }]));
+    fakeReddit.on('GET', '/users/search', () => listing([{ kind: 't2', data: { name: 'OmgImAlexis' } }]));
+
+    const subreddits = await snooWrapped.searchSubreddits({ query: 'programming' }).fetch();
+    const users = await snooWrapped.searchUsers({ query: 'alexis' }).fetch();
+
+    t.true(subreddits.items[0] instanceof Subreddit);
+    t.true(users.items[0] instanceof RedditUser);
+    t.is(users.items[0].name, 'OmgImAlexis');
+});
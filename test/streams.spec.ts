@@ -0,0 +1,159 @@
+import ava, { TestInterface } from 'ava';
+import { Comment } from '../src/objects/comment';
+import { ContentStream } from '../src/objects/content-stream';
+import { Listing } from '../src/objects/listing';
+import { ModAction } from '../src/objects/mod-action';
+import { Submission } from '../src/objects/submission';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit, reply } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const listing = (children: unknown[]) => ({ kind: 'Listing', data: { after: null, before: null, children } });
+const submission = (id: string) => ({ kind: 't3', data: { name: `t3_${id}`, author: 'OmgImAlexis', subreddit: 'AskReddit', title: id } });
+
+/**
+ * Replies with each page in turn, repeating the last one.
+ */
+const pages = (...responses: unknown[][]) => {
+    let index = 0;
+    return () => listing(responses[Math.min(index++, responses.length - 1)]);
+};
+
+/**
+ * Collects items from a stream until it has a given amount, then aborts it.
+ */
+const take = async <T>(stream: AsyncIterable<T>, amount: number, controller: AbortController) => {
+    const items: T[] = [];
+    for await (const item of stream) {
+        items.push(item);
+        if (items.length === amount) controller.abort();
+    }
+    return items;
+};
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('streamSubmissions() yields each new Submission once, oldest first', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/AskReddit/new', pages(
+        [submission('b'), submission('a')],
+        [submission('c'), submission('b'), submission('a')],
+        [submission('d'), submission('c'), submission('b')]
+    ));
+    const controller = new AbortController();
+
+    const submissions = await take(snooWrapped.streamSubmissions({ subreddit: 'AskReddit', pollInterval: 1, signal: controller.signal }), 4, controller);
+
+    t.true(submissions.every(item => item instanceof Submission));
+    t.deepEqual(submissions.map(({ name }) => name), ['t3_a', 't3_b', 't3_c', 't3_d']);
+    t.is(fakeReddit.requestsTo('/r/AskReddit/new')[0].query.limit, '100');
+});
+
+test('skipExisting only yields items that arrive after the first poll', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/all/new', pages(
+        [submission('b'), submission('a')],
+        [submission('c'), submission('b'), submission('a')]
+    ));
+    const controller = new AbortController();
+
+    const submissions = await take(snooWrapped.streamSubmissions({ skipExisting: true, pollInterval: 1, signal: controller.signal }), 1, controller);
+
+    t.deepEqual(submissions.map(({ name }) => name), ['t3_c']);
+});
+
+test('streamComments(), streamInbox() and streamModlog() use their listings', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/AskReddit/comments', () => listing([
+        { kind: 't1', data: { name: 't1_abc', author: 'OmgImAlexis', subreddit: 'AskReddit', link_id: 't3_a', body: 'Hi', replies: '' } }
+    ]));
+    fakeReddit.on('GET', '/message/unread', () => listing([
+        { kind: 't1', data: { name: 't1_def', author: 'spez', subreddit: 'AskReddit', body: 'A reply', replies: '' } }
+    ]));
+    fakeReddit.on('GET', '/r/mod/about/log', () => listing([
+        { kind: 'modaction', data: { id: 'ModAction_abc', action: 'removelink', mod: 'OmgImAlexis', subreddit: 'AskReddit', created_utc: 1600000000 } }
+    ]));
+
+    const controller = new AbortController();
+    const [comment] = await take(snooWrapped.streamComments({ subreddit: 'AskReddit', signal: controller.signal }), 1, controller);
+    t.true(comment instanceof Comment);
+
+    const inboxController = new AbortController();
+    const [reply] = await take(snooWrapped.streamInbox({ filter: 'unread', signal: inboxController.signal }), 1, inboxController);
+    t.is(reply.name, 't1_def');
+
+    const modlogController = new AbortController();
+    const [action] = await take(snooWrapped.streamModlog({ type: 'removelink', signal: modlogController.signal }), 1, modlogController);
+    t.true(action instanceof ModAction);
+    t.is(fakeReddit.requestsTo('/r/mod/about/log')[0].query.type, 'removelink');
+});
+
+test('polling backs off while nothing new arrives', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/all/new', pages([submission('a')], [submission('a')], [submission('a')], [submission('b'), submission('a')]));
+    const controller = new AbortController();
+    const started = Date.now();
+
+    await take(snooWrapped.streamSubmissions({ pollInterval: 20, signal: controller.signal }), 2, controller);
+
+    // 20ms after the first poll, then 40ms and 80ms with nothing new
+    t.true(Date.now() - started >= 140);
+});
+
+test('aborting stops the stream while it waits', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/all/new', () => listing([]));
+    const controller = new AbortController();
+    const stream = snooWrapped.streamSubmissions({ pollInterval: 60000, signal: controller.signal });
+
+    setTimeout(() => controller.abort(), 10);
+    const items = await take(stream, Infinity, controller);
+
+    t.deepEqual(items, []);
+    t.is(fakeReddit.requestsTo('/r/all/new').length, 1);
+});
+
+test('the seen set is bounded', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/all/new', pages([submission('b'), submission('a')], [submission('b')], [submission('a')]));
+    const controller = new AbortController();
+    const stream = new ContentStream(new Listing<Submission>({ uri: 'r/all/new' }, snooWrapped), { pollInterval: 1, seenLimit: 1, signal: controller.signal });
+
+    const submissions = await take(stream, 3, controller);
+
+    // "a" was forgotten once "b" was seen
+    t.deepEqual(submissions.map(({ name }) => name), ['t3_a', 't3_b', 't3_a']);
+});
+
+test('a failed poll is reported and the stream keeps polling', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    let polls = 0;
+    fakeReddit.on('GET', '/r/all/new', () => polls++ === 0 ? reply(403, { message: 'Forbidden', error: 403 }) : listing([submission('a')]));
+    const controller = new AbortController();
+    const errors: unknown[] = [];
+
+    const submissions = await take(snooWrapped.streamSubmissions({ pollInterval: 1, signal: controller.signal, onError: error => errors.push(error) }), 1, controller);
+
+    t.deepEqual(submissions.map(({ name }) => name), ['t3_a']);
+    t.is(errors.length, 1);
+});
+
+test('stopOnError ends the stream with the failed poll', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/all/new', () => reply(403, { message: 'Forbidden', error: 403 }));
+    const controller = new AbortController();
+
+    await t.throwsAsync(take(snooWrapped.streamSubmissions({ pollInterval: 1, signal: controller.signal, stopOnError: true }), 1, controller));
+    t.is(fakeReddit.requestsTo('/r/all/new').length, 1);
+});
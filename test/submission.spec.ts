@@ -71,8 +71,8 @@ test.serial('fetch()', async t => {
     t.is(fetchedSubmission.author?.name, 'DO_U_EVN_SPAGHETTI');
     t.true((fetchedSubmission.votes.up || 0) >= 57000);
     t.is(fetchedSubmission.votes.down, 0);
-    t.is(fetchedSubmission.created?.getTime(), new Date(1417208878).getTime());
-    t.is(fetchedSubmission.edited?.getTime(), new Date(1417251723).getTime());
+    t.is(fetchedSubmission.created?.getTime(), 1417208878000);
+    t.is(fetchedSubmission.edited?.getTime(), 1417251723000);
     t.is(fetchedSubmission.gilded, 14);
     t.is(fetchedSubmission.subredditType, 'public');
     t.is(fetchedSubmission.domain, 'self.AskReddit');
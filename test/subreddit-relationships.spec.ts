@@ -0,0 +1,105 @@
+import ava, { TestInterface } from 'ava';
+import { RedditUser } from '../src/objects/reddit-user';
+import { SubredditRelationship } from '../src/objects/subreddit-relationship';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    ['friend', 'unfriend', 'setpermissions'].forEach(action => fakeReddit.on('POST', `/r/snoowrap_testing/api/${action}`, () => ({ json: { errors: [] } })));
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('banUser() and unbanUser()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const subreddit = snooWrapped.getSubreddit('snoowrap_testing');
+
+    await subreddit.banUser({ name: 'spez', duration: 3, banReason: 'Spam', banMessage: 'Please stop' });
+    await subreddit.unbanUser(snooWrapped.getUser('spez'));
+
+    t.deepEqual(fakeReddit.requestsTo('/r/snoowrap_testing/api/friend')[0].form, {
+        api_type: 'json',
+        name: 'spez',
+        type: 'banned',
+        duration: '3',
+        ban_reason: 'Spam',
+        ban_message: 'Please stop'
+    });
+    t.like(fakeReddit.requestsTo('/r/snoowrap_testing/api/unfriend')[0].form, { name: 'spez', type: 'banned' });
+});
+
+test('mutes and contributors', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const subreddit = snooWrapped.getSubreddit('snoowrap_testing');
+
+    await subreddit.muteUser({ name: snooWrapped.getUser('spez'), note: 'Spamming modmail' });
+    await subreddit.unmuteUser('spez');
+    await subreddit.addContributor('spez');
+    await subreddit.removeContributor(snooWrapped.getUser('spez'));
+
+    t.deepEqual(fakeReddit.requestsTo('/r/snoowrap_testing/api/friend').map(({ form }) => [form.name, form.type, form.note]), [
+        ['spez', 'muted', 'Spamming modmail'],
+        ['spez', 'contributor', undefined]
+    ]);
+    t.deepEqual(fakeReddit.requestsTo('/r/snoowrap_testing/api/unfriend').map(({ form }) => [form.name, form.type]), [
+        ['spez', 'muted'],
+        ['spez', 'contributor']
+    ]);
+});
+
+test('moderator invites, removal and permissions', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const subreddit = snooWrapped.getSubreddit('snoowrap_testing');
+
+    await subreddit.inviteModerator({ name: 'spez', permissions: ['posts', 'wiki'] });
+    await subreddit.revokeModeratorInvite('spez');
+    await subreddit.setModeratorPermissions({ name: snooWrapped.getUser('OmgImAlexis'), permissions: ['mail'] });
+    await subreddit.removeModerator('OmgImAlexis');
+
+    t.like(fakeReddit.requestsTo('/r/snoowrap_testing/api/friend')[0].form, { name: 'spez', type: 'moderator_invite', permissions: '-all,+posts,+wiki' });
+    t.like(fakeReddit.requestsTo('/r/snoowrap_testing/api/setpermissions')[0].form, { name: 'OmgImAlexis', type: 'moderator', permissions: '-all,+mail' });
+    t.deepEqual(fakeReddit.requestsTo('/r/snoowrap_testing/api/unfriend').map(({ form }) => [form.name, form.type]), [
+        ['spez', 'moderator_invite'],
+        ['OmgImAlexis', 'moderator']
+    ]);
+});
+
+test('getBannedUsers() is paginated', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const ban = (name: string, rel: string) => ({ name, id: `t2_${name}`, rel_id: rel, date: 1600000000, note: 'Spam', days_left: 3 });
+    fakeReddit.on('GET', '/r/snoowrap_testing/about/banned', ({ query }) => query.after
+        ? { kind: 'Listing', data: { after: null, before: null, children: [ban('c', 'rb_3')] } }
+        : { kind: 'Listing', data: { after: 'rb_2', before: null, children: [ban('a', 'rb_1'), ban('b', 'rb_2')] } });
+
+    const bans = await snooWrapped.getSubreddit('snoowrap_testing').getBannedUsers().fetchAll();
+
+    t.true(bans.items[0] instanceof SubredditRelationship);
+    t.true(bans.items[0].user instanceof RedditUser);
+    t.deepEqual(bans.items.map(item => item.user.name), ['a', 'b', 'c']);
+    t.like(bans.items[0], { name: 'rb_1', note: 'Spam', daysLeft: 3 });
+    t.is(bans.items[0].user.id, 'a');
+});
+
+test('getModerators() includes permissions', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/snoowrap_testing/about/moderators', () => ({
+        kind: 'UserList',
+        data: { children: [{ name: 'OmgImAlexis', id: 't2_abc', date: 1600000000, mod_permissions: ['all'] }] }
+    }));
+
+    const moderators = await snooWrapped.getSubreddit('snoowrap_testing').getModerators().fetchAll();
+
+    t.is(moderators.length, 1);
+    t.is(moderators.items[0].user.name, 'OmgImAlexis');
+    t.deepEqual(moderators.items[0].permissions, ['all']);
+    t.is(moderators.items[0].daysLeft, undefined);
+});
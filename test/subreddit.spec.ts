@@ -0,0 +1,104 @@
+import ava, { TestInterface } from 'ava';
+import { RequiredArgumentError } from '../src/errors/required-argument-erorr';
+import { Submission } from '../src/objects/submission';
+import { Subreddit } from '../src/objects/subreddit';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const submissions = (names: string[]) => ({
+    kind: 'Listing',
+    data: { after: null, before: null, children: names.map(name => ({ kind: 't3', data: { name, author: 'OmgImAlexis', subreddit: 'snoowrap_testing' } })) }
+});
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('GET', '/r/snoowrap_testing/about', () => ({
+        kind: 't5',
+        data: {
+            display_name: 'snoowrap_testing',
+            id: '3ccp7',
+            title: 'snoowrap testing',
+            subscribers: 16,
+            active_user_count: 2,
+            subreddit_type: 'public',
+            description: 'A subreddit for testing snoowrap.',
+            public_description: 'Testing',
+            over18: false,
+            created_utc: 1440636474
+        }
+    }));
+    fakeReddit.on('GET', '/r/snoowrap_testing/about/rules', () => ({
+        rules: [{ kind: 'link', short_name: 'Be nice', description: 'Really.', violation_reason: 'Not nice', created_utc: 1500000000, priority: 0 }],
+        site_rules: []
+    }));
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('constructor', t => {
+    const { snooWrapped } = t.context;
+
+    // OK
+    t.notThrows(() => {
+        new Subreddit({ name: 'snoowrap_testing' }, snooWrapped);
+    });
+
+    // Missing "name"
+    t.throws(() => {
+        // @ts-expect-error
+        new Subreddit({}, snooWrapped);
+    }, { instanceOf: RequiredArgumentError });
+});
+
+test('fetch()', async t => {
+    const { snooWrapped } = t.context;
+
+    // Returns an unfetched "Subreddit"
+    const subreddit = snooWrapped.getSubreddit('r/snoowrap_testing');
+    t.is(subreddit.name, 'snoowrap_testing');
+    t.is(subreddit.type, undefined);
+
+    // Returns a fetched "Subreddit"
+    const fetchedSubreddit = await subreddit.fetch();
+    t.true(fetchedSubreddit instanceof Subreddit);
+    t.is(fetchedSubreddit.name, 'snoowrap_testing');
+    t.is(fetchedSubreddit.title, 'snoowrap testing');
+    t.is(fetchedSubreddit.type, 'public');
+    t.is(fetchedSubreddit.subscribers, 16);
+    t.is(fetchedSubreddit.activeUsers, 2);
+    t.false(fetchedSubreddit.nsfw);
+    t.is(fetchedSubreddit.created?.getTime(), 1440636474000);
+});
+
+test('getRules()', async t => {
+    const { snooWrapped } = t.context;
+
+    const [rule] = await snooWrapped.getSubreddit('snoowrap_testing').getRules();
+    t.is(rule.shortName, 'Be nice');
+    t.is(rule.violationReason, 'Not nice');
+    t.is(rule.created.getTime(), 1500000000000);
+});
+
+test('listings', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/snoowrap_testing/hot', () => submissions(['t3_hot']));
+    fakeReddit.on('GET', '/r/snoowrap_testing/top', () => submissions(['t3_top']));
+
+    const subreddit = snooWrapped.getSubreddit('snoowrap_testing');
+    const hot = await subreddit.getHot({ limit: 10 }).fetch();
+    t.true(hot.items[0] instanceof Submission);
+    t.is(hot.items[0].name, 't3_hot');
+    t.is(fakeReddit.requestsTo('/r/snoowrap_testing/hot')[0].query.t, undefined);
+
+    const top = await subreddit.getTop({ time: 'week' }).fetch();
+    t.is(top.items[0].name, 't3_top');
+    t.is(fakeReddit.requestsTo('/r/snoowrap_testing/top')[0].query.t, 'week');
+});
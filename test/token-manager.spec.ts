@@ -0,0 +1,58 @@
+import ava, { TestInterface } from 'ava';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { AccessToken } from '../src/utils/token-manager';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('GET', '/user/OmgImAlexis/about', () => ({ kind: 't2', data: { name: 'OmgImAlexis' } }));
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('concurrent requests share a single token refresh', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    await Promise.all(Array.from({ length: 20 }, () => snooWrapped.getUser('OmgImAlexis').fetch()));
+
+    t.is(fakeReddit.requestsTo('/api/v1/access_token').length, 1);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about').length, 20);
+});
+
+test('refreshed token is saved and emitted', async t => {
+    const { snooWrapped } = t.context;
+    const refreshed: AccessToken[] = [];
+    snooWrapped.on('tokenRefreshed', token => refreshed.push(token));
+
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+
+    t.is(refreshed.length, 1);
+    t.is(refreshed[0].accessToken, 'THIS_IS_A_FAKE_ACCESS_TOKEN_USED_FOR_TESTS');
+    t.deepEqual(refreshed[0].scope, ['*']);
+    t.is(snooWrapped.credentials.accessToken, 'THIS_IS_A_FAKE_ACCESS_TOKEN_USED_FOR_TESTS');
+    t.true((snooWrapped.credentials.tokenExpiration?.getTime() ?? 0) > Date.now());
+});
+
+test('token is renewed shortly before it expires', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    // Expires within the default 60 second margin
+    snooWrapped.updateAccessToken('ALMOST_EXPIRED_TOKEN', new Date(Date.now() + 30_000), ['*']);
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    t.is(fakeReddit.requestsTo('/api/v1/access_token').length, 1);
+
+    // Still valid for a while
+    snooWrapped.updateAccessToken('VALID_TOKEN', new Date(Date.now() + 3_600_000), ['*']);
+    await snooWrapped.getUser('OmgImAlexis').fetch();
+    t.is(fakeReddit.requestsTo('/api/v1/access_token').length, 1);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/about')[1].headers.Authorization, 'Bearer VALID_TOKEN');
+});
@@ -0,0 +1,101 @@
+import ava, { TestInterface } from 'ava';
+import { Comment } from '../src/objects/comment';
+import { Submission } from '../src/objects/submission';
+import { Subreddit } from '../src/objects/subreddit';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const listing = (children: unknown[]) => ({ kind: 'Listing', data: { after: null, before: null, children } });
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('getOverview() returns Submissions and Comments', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/overview', () => listing([
+        { kind: 't3', data: { name: 't3_abc', author: 'OmgImAlexis', subreddit: 'snoowrap', title: 'A post' } },
+        { kind: 't1', data: { name: 't1_def', author: 'OmgImAlexis', subreddit: 'snoowrap', link_id: 't3_abc', body: 'A comment', replies: '' } }
+    ]));
+
+    const overview = await snooWrapped.getUser('OmgImAlexis').getOverview({ sort: 'top', time: 'year', limit: 2 }).fetch();
+
+    t.true(overview.items[0] instanceof Submission);
+    t.true(overview.items[1] instanceof Comment);
+    t.like(fakeReddit.requestsTo('/user/OmgImAlexis/overview')[0].query, { sort: 'top', t: 'year', limit: '2' });
+});
+
+test('history listings use their own endpoints', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    const user = snooWrapped.getUser('OmgImAlexis');
+    const locations = ['submitted', 'comments', 'upvoted', 'downvoted', 'gilded'];
+    locations.forEach(location => fakeReddit.on('GET', `/user/OmgImAlexis/${location}`, () => listing([])));
+
+    await user.getSubmissions().fetch();
+    await user.getComments({ sort: 'new' }).fetch();
+    await user.getUpvotedContent().fetch();
+    await user.getDownvotedContent().fetch();
+    await user.getGildedContent().fetch();
+
+    locations.forEach(location => t.is(fakeReddit.requestsTo(`/user/OmgImAlexis/${location}`).length, 1));
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/comments')[0].query.sort, 'new');
+    t.false('sort' in fakeReddit.requestsTo('/user/OmgImAlexis/submitted')[0].query);
+});
+
+test('getTrophies()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/api/v1/user/OmgImAlexis/trophies', () => ({
+        kind: 'TrophyList',
+        data: { trophies: [{ kind: 't6', data: { name: 'Verified Email', description: null, icon_70: 'https://example.com/icon.png', url: null, granted_at: 1600000000 } }] }
+    }));
+
+    const [trophy] = await snooWrapped.getUser('OmgImAlexis').getTrophies();
+
+    t.is(trophy.name, 'Verified Email');
+    t.is(trophy.icon, 'https://example.com/icon.png');
+    t.deepEqual(trophy.granted, new Date(1600000000 * 1000));
+});
+
+test('getModeratedSubreddits()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/moderated_subreddits', () => ({
+        kind: 'ModeratedList',
+        data: [{ sr: 'snoowrap', title: 'snoowrap', subscribers: 100, over_18: false, created_utc: 1600000000 }]
+    }));
+
+    const [subreddit] = await snooWrapped.getUser('OmgImAlexis').getModeratedSubreddits();
+
+    t.true(subreddit instanceof Subreddit);
+    t.is(subreddit.name, 'snoowrap');
+    t.is(subreddit.subscribers, 100);
+});
+
+test('friend(), unfriend(), block() and unblock()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('PUT', '/api/v1/me/friends/spez', () => ({}));
+    fakeReddit.on('DELETE', '/api/v1/me/friends/spez', () => ({}));
+    fakeReddit.on('POST', '/api/block_user', () => ({}));
+    fakeReddit.on('POST', '/api/unfriend', () => ({}));
+    fakeReddit.on('GET', '/api/v1/me', () => ({ name: 'OmgImAlexis', id: 'xyz' }));
+    const user = snooWrapped.getUser('spez');
+
+    await user.friend({ note: 'Admin' });
+    await user.unfriend();
+    await user.block();
+    await user.unblock();
+
+    t.deepEqual(JSON.parse(fakeReddit.requestsTo('/api/v1/me/friends/spez')[0].body!), { name: 'spez', note: 'Admin' });
+    t.is(fakeReddit.requestsTo('/api/v1/me/friends/spez')[1].method, 'DELETE');
+    t.is(fakeReddit.requestsTo('/api/block_user')[0].form.name, 'spez');
+    t.deepEqual(fakeReddit.requestsTo('/api/unfriend')[0].form, { name: 'spez', type: 'enemy', container: 't2_xyz' });
+});
@@ -0,0 +1,72 @@
+import ava, { TestInterface } from 'ava';
+import { Comment } from '../src/objects/comment';
+import { Submission } from '../src/objects/submission';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    fakeReddit.on('POST', '/api/vote', () => ({}));
+    fakeReddit.on('POST', '/api/save', () => ({}));
+    fakeReddit.on('POST', '/api/unsave', () => ({}));
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('upvote(), downvote() and unvote()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const upvoted = await snooWrapped.getSubmission('abc').upvote();
+    t.true(upvoted instanceof Submission);
+    t.true(upvoted.votes.likes);
+
+    const downvoted = await snooWrapped.getComment('def').downvote();
+    t.true(downvoted instanceof Comment);
+    t.false(downvoted.votes.likes);
+
+    const unvoted = await upvoted.unvote();
+    t.is(unvoted.votes.likes, null);
+
+    t.deepEqual(fakeReddit.requestsTo('/api/vote').map(({ form }) => [form.id, form.dir]), [
+        ['t3_abc', '1'],
+        ['t1_def', '-1'],
+        ['t3_abc', '0']
+    ]);
+});
+
+test('save() and unsave()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+
+    const saved = await snooWrapped.getSubmission('abc').save('recipes');
+    t.true(saved.saved);
+    t.is(fakeReddit.requestsTo('/api/save')[0].form.category, 'recipes');
+
+    const unsaved = await saved.unsave();
+    t.false(unsaved.saved);
+});
+
+test('fetched votes include the score and own vote', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/user/OmgImAlexis/saved', () => ({
+        kind: 'Listing',
+        data: {
+            after: null,
+            before: null,
+            children: [{ kind: 't1', data: { name: 't1_def', link_id: 't3_abc', author: 'OmgImAlexis', subreddit: 'test', ups: 10, downs: 0, score: 10, likes: true, saved: true } }]
+        }
+    }));
+
+    const saved = await snooWrapped.getUser('OmgImAlexis').getSaved({ type: 'comments' }).fetch();
+    const [comment] = saved.items;
+    t.deepEqual(comment.votes, { up: 10, down: 0, score: 10, likes: true });
+    t.true(comment.saved);
+    t.is(fakeReddit.requestsTo('/user/OmgImAlexis/saved')[0].query.type, 'comments');
+});
@@ -0,0 +1,104 @@
+import ava, { TestInterface } from 'ava';
+import { RedditUser } from '../src/objects/reddit-user';
+import { WikiPage } from '../src/objects/wiki-page';
+import { WikiRevision } from '../src/objects/wiki-revision';
+import { SnooWrapped } from '../src/snoo-wrapped';
+import { credentials } from './_helpers/credentials';
+import { FakeReddit } from './_helpers/fake-reddit';
+
+const test = ava as TestInterface<{
+    fakeReddit: FakeReddit;
+    snooWrapped: SnooWrapped;
+}>;
+
+const author = { kind: 't2' as const, data: { name: 'OmgImAlexis', id: 'abc' } };
+const revision = (id: string) => ({ id, page: 'bot-config', reason: null, timestamp: 1600000000, author, revision_hidden: false });
+const settings = { kind: 'wikipagesettings', data: { permlevel: 2, listed: false, editors: [author] } };
+
+test.beforeEach(t => {
+    const fakeReddit = new FakeReddit();
+    t.context = {
+        fakeReddit,
+        snooWrapped: new SnooWrapped({ ...credentials, transport: fakeReddit.transport })
+    };
+});
+
+test('getWikiPage().fetch()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/snoowrap_testing/wiki/config/automoderator', () => ({
+        kind: 'wikipage',
+        data: {
+            content_md: 'enabled: true',
+            content_html: '<p>enabled: true</p>',
+            may_revise: true,
+            reason: 'Turn the bot on',
+            revision_date: 1600000000,
+            revision_id: '0dbe4ad6',
+            revision_by: author
+        }
+    }));
+
+    const page = await snooWrapped.getSubreddit('snoowrap_testing').getWikiPage('config/automoderator').fetch();
+
+    t.true(page instanceof WikiPage);
+    t.is(page.name, 'config/automoderator');
+    t.is(page.content, 'enabled: true');
+    t.is(page.revisionId, '0dbe4ad6');
+    t.deepEqual(page.revisionDate, new Date(1600000000 * 1000));
+    t.true(page.revisedBy instanceof RedditUser);
+    t.is(page.revisedBy?.name, 'OmgImAlexis');
+});
+
+test('getWikiPages() lists every page', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/snoowrap_testing/wiki/pages', () => ({ kind: 'wikipagelisting', data: ['config/automoderator', 'index'] }));
+
+    const pages = await snooWrapped.getSubreddit('snoowrap_testing').getWikiPages();
+
+    t.true(pages[0] instanceof WikiPage);
+    t.deepEqual(pages.map(page => page.name), ['config/automoderator', 'index']);
+});
+
+test('edit() and revert()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('POST', '/r/snoowrap_testing/api/wiki/edit', () => ({}));
+    fakeReddit.on('POST', '/r/snoowrap_testing/api/wiki/revert', () => ({}));
+    const page = snooWrapped.getSubreddit('snoowrap_testing').getWikiPage('bot-config');
+
+    await page.edit({ text: 'enabled: false', reason: 'Turn the bot off', previousRevision: '0dbe4ad6' });
+    await page.revert(new WikiRevision({ name: 'WikiRevision_0dbe4ad6', id: '0dbe4ad6' }, snooWrapped));
+
+    t.deepEqual(fakeReddit.requestsTo('/r/snoowrap_testing/api/wiki/edit')[0].form, { page: 'bot-config', content: 'enabled: false', reason: 'Turn the bot off', previous: '0dbe4ad6' });
+    t.deepEqual(fakeReddit.requestsTo('/r/snoowrap_testing/api/wiki/revert')[0].form, { page: 'bot-config', revision: '0dbe4ad6' });
+});
+
+test('getRevisions() is paginated', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/snoowrap_testing/wiki/revisions/bot-config', ({ query }) => query.after
+        ? { kind: 'Listing', data: { after: null, before: null, children: [revision('c')] } }
+        : { kind: 'Listing', data: { after: 'WikiRevision_b', before: null, children: [revision('a'), revision('b')] } });
+
+    const revisions = await snooWrapped.getSubreddit('snoowrap_testing').getWikiPage('bot-config').getRevisions().fetchAll();
+
+    t.true(revisions.items[0] instanceof WikiRevision);
+    t.deepEqual(revisions.items.map(item => item.id), ['a', 'b', 'c']);
+    t.is(revisions.items[0].author?.name, 'OmgImAlexis');
+    t.is(fakeReddit.requestsTo('/r/snoowrap_testing/wiki/revisions/bot-config')[1].query.after, 'WikiRevision_b');
+});
+
+test('getSettings() and editSettings()', async t => {
+    const { fakeReddit, snooWrapped } = t.context;
+    fakeReddit.on('GET', '/r/snoowrap_testing/wiki/settings/bot-config', () => settings);
+    fakeReddit.on('POST', '/r/snoowrap_testing/wiki/settings/bot-config', () => settings);
+    const page = snooWrapped.getSubreddit('snoowrap_testing').getWikiPage('bot-config');
+
+    const current = await page.getSettings();
+    const edited = await page.editSettings({ permissionLevel: 2, listed: false });
+
+    t.is(current.permissionLevel, 2);
+    t.false(current.listed);
+    t.is(current.editors[0].name, 'OmgImAlexis');
+    t.is(edited.permissionLevel, 2);
+    t.deepEqual(fakeReddit.requestsTo('/r/snoowrap_testing/wiki/settings/bot-config').map(({ method }) => method), ['GET', 'POST']);
+    t.deepEqual(fakeReddit.requestsTo('/r/snoowrap_testing/wiki/settings/bot-config')[1].form, { permlevel: '2', listed: 'false' });
+});